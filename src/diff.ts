@@ -0,0 +1,165 @@
+// Above this many cells the LCS table is skipped and the changed middle
+// section is reported as a single replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+/**
+ * Computes a line-level edit script between two texts. Common prefix and
+ * suffix are trimmed first so typical small edits stay cheap.
+ */
+function diffLines(oldLines: string[], newLines: string[]): Op[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops: Op[] = oldLines
+    .slice(0, prefix)
+    .map((line) => ({ kind: " ", line }));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...a.map((line): Op => ({ kind: "-", line })));
+    ops.push(...b.map((line): Op => ({ kind: "+", line })));
+  } else {
+    // lcs[i][j] is the LCS length of a[i..] and b[j..]
+    const lcs = Array.from(
+      { length: a.length + 1 },
+      () => new Uint32Array(b.length + 1),
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] =
+          a[i] === b[j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ kind: " ", line: a[i] });
+        i++;
+        j++;
+      } else if (
+        i < a.length &&
+        (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+      ) {
+        ops.push({ kind: "-", line: a[i] });
+        i++;
+      } else {
+        ops.push({ kind: "+", line: b[j] });
+        j++;
+      }
+    }
+  }
+
+  ops.push(
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map((line): Op => ({ kind: " ", line })),
+  );
+  return ops;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range points at the line before it, as in GNU diff.
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Renders a unified diff between two versions of a buffer. Returns an empty
+ * string when the texts are identical. With `numbered`, every line is
+ * prefixed with its line number, taken from the new text except for removed
+ * lines, in the `N: text` style of the buffer tools.
+ */
+export function unifiedDiff(
+  oldLines: string[],
+  newLines: string[],
+  {
+    context = 3,
+    oldName = "a",
+    newName = "b",
+    numbered = false,
+  }: {
+    context?: number;
+    oldName?: string;
+    newName?: string;
+    numbered?: boolean;
+  } = {},
+): string {
+  const ops = diffLines(oldLines, newLines);
+  const changed = ops
+    .map((op, index) => (op.kind === " " ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context windows touch into hunks.
+  const groups: [number, number][] = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] - 1 <= 2 * context) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  // Line numbers (1-indexed) in each file before ops[index].
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.kind !== "+") {
+      oldLine++;
+    }
+    if (op.kind !== "-") {
+      newLine++;
+    }
+  }
+
+  const output = [`--- ${oldName}`, `+++ ${newName}`];
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const hunk = ops.slice(start, end + 1);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    output.push(
+      `@@ -${formatRange(oldLineAt[start], oldCount)} +${formatRange(newLineAt[start], newCount)} @@`,
+    );
+    output.push(
+      ...hunk.map((op, index) => {
+        if (!numbered) {
+          return `${op.kind}${op.line}`;
+        }
+        const lineNum =
+          op.kind === "-" ? oldLineAt[start + index] : newLineAt[start + index];
+        return `${op.kind}${lineNum}: ${op.line}`;
+      }),
+    );
+  }
+  return output.join("\n");
+}
@@ -0,0 +1,45 @@
+import { ChildProcess, spawn } from "node:child_process";
+
+/**
+ * When the default instance is an embedded `nvim --embed --headless` child
+ * instead of a socket: `always`, or as a `fallback` when nothing listens on
+ * NVIM_SOCKET_PATH.
+ */
+export type EmbedMode = "always" | "fallback";
+
+export function embedMode(): EmbedMode | null {
+  const mode = process.env.NVIM_EMBED;
+  if (mode === "always" || mode === "fallback") {
+    return mode;
+  }
+  if (mode) {
+    console.error(
+      `Ignoring invalid NVIM_EMBED=${mode}, expected "always" or "fallback"`,
+    );
+  }
+  return null;
+}
+
+/**
+ * Starts nvim as a child process talking msgpack-RPC over stdio. It loads
+ * the init file named by NVIM_EMBED_CONFIG, or no config at all (`--clean`)
+ * without it. Swap files are disabled so that files open in the user's own
+ * nvim do not stop the headless instance with an ATTENTION prompt.
+ */
+export async function spawnEmbedded(): Promise<ChildProcess> {
+  const config = process.env.NVIM_EMBED_CONFIG;
+  const args = [
+    "--embed",
+    "--headless",
+    "-n",
+    ...(config ? ["-u", config] : ["--clean"]),
+  ];
+  const child = spawn(process.env.NVIM_BIN || "nvim", args, {
+    stdio: ["pipe", "pipe", "inherit"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    child.once("spawn", resolve);
+    child.once("error", reject);
+  });
+  return child;
+}
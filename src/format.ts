@@ -0,0 +1,49 @@
+/**
+ * How a buffer is formatted after an edit: not at all, through the attached
+ * language servers, or by running an Ex command such as `Format`.
+ */
+export type Formatter =
+  { kind: "none" } | { kind: "lsp" } | { kind: "command"; command: string };
+
+let formatters: Map<string, Formatter> | null = null;
+
+function parseFormatter(value: string): Formatter {
+  if (value === "none" || value === "") {
+    return { kind: "none" };
+  }
+  if (value === "lsp") {
+    return { kind: "lsp" };
+  }
+  return { kind: "command", command: value.replace(/^:/, "") };
+}
+
+/**
+ * Reads NVIM_FORMATTERS, a JSON object mapping filetypes to `"none"`,
+ * `"lsp"` or an Ex command. The `"*"` entry applies to all other filetypes;
+ * without it, buffers are not formatted.
+ */
+function loadFormatters(): Map<string, Formatter> {
+  const config = new Map<string, Formatter>();
+  const raw = process.env.NVIM_FORMATTERS;
+  if (!raw) {
+    return config;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error("expected an object of filetype to formatter");
+    }
+    for (const [filetype, value] of Object.entries(parsed)) {
+      config.set(filetype, parseFormatter(String(value)));
+    }
+  } catch (error) {
+    console.error("Ignoring invalid NVIM_FORMATTERS:", error);
+  }
+  return config;
+}
+
+export function formatterFor(filetype: string): Formatter {
+  formatters ??= loadFormatters();
+  return formatters.get(filetype) ?? formatters.get("*") ?? { kind: "none" };
+}
@@ -0,0 +1,222 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const DEFAULT_PORT = 3000;
+// The server only listens on the loopback interface.
+const HOST = "127.0.0.1";
+// Request bodies above this size are rejected.
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpConfig {
+  port: number;
+  // Clients must send `Authorization: Bearer <token>` when set.
+  token: string | null;
+}
+
+/**
+ * Returns the HTTP configuration if the server should listen on HTTP
+ * instead of stdio: with the `--http` flag or MCP_TRANSPORT=http. The port
+ * comes from `--port <n>` or MCP_PORT, the token from MCP_AUTH_TOKEN.
+ */
+export function httpConfig(args: string[]): HttpConfig | null {
+  const enabled =
+    args.includes("--http") || process.env.MCP_TRANSPORT === "http";
+  if (!enabled) {
+    return null;
+  }
+
+  const portFlag = args.indexOf("--port");
+  const rawPort =
+    portFlag !== -1 ? args[portFlag + 1] : (process.env.MCP_PORT ?? "");
+  const port = rawPort === "" ? DEFAULT_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${rawPort}`);
+  }
+  return { port, token: process.env.MCP_AUTH_TOKEN || null };
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+function isAuthorized(req: IncomingMessage, token: string | null): boolean {
+  if (token === null) {
+    return true;
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Guards against DNS rebinding: a browser page on another site could
+ * otherwise reach the server through a hostname resolving to 127.0.0.1.
+ */
+function isLocalHost(req: IncomingMessage): boolean {
+  const host = (req.headers.host ?? "").replace(/:\d+$/, "");
+  return host === "localhost" || host === "127.0.0.1" || host === "[::1]";
+}
+
+/**
+ * Raised for requests the server refuses with a specific HTTP status.
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () =>
+    new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) {
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Serves MCP over Streamable HTTP at `/mcp` and over the legacy SSE
+ * transport at `/sse` (with messages posted to `/messages`). Every client
+ * session gets its own server from `createServer`, all sharing the same
+ * Neovim connections. Resolves with the listening server.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  { port, token }: HttpConfig,
+): Promise<Server> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJson(req) : undefined;
+    let transport =
+      typeof sessionId === "string" ? streamable.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        sendError(res, 400, "No valid session; send an initialize request");
+        return;
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamable.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) {
+          streamable.delete(created.sessionId);
+        }
+      };
+      await createServer().connect(created);
+      transport = created;
+    }
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    sse.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sse.delete(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  };
+
+  const handleMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ) => {
+    const transport = sse.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      sendError(res, 404, "Unknown SSE session");
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJson(req));
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${HOST}`);
+    if (!isLocalHost(req)) {
+      sendError(res, 403, "Only localhost may connect");
+      return;
+    }
+    if (!isAuthorized(req, token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, 401, "Missing or invalid bearer token");
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === "/mcp") {
+      handled = handleStreamable(req, res);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      handled = handleSse(req, res);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      handled = handleMessage(req, res, url);
+    } else {
+      sendError(res, 404, "Not found");
+      return;
+    }
+    handled.catch((error) => {
+      if (!(error instanceof HttpError)) {
+        console.error("Error handling HTTP request:", error);
+      }
+      if (!res.headersSent) {
+        sendError(
+          res,
+          error instanceof HttpError
+            ? error.status
+            : error instanceof SyntaxError
+              ? 400
+              : 500,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, HOST, () => resolve());
+  });
+  const address = httpServer.address();
+  console.error(
+    `MCP server listening on http://${HOST}:${typeof address === "object" && address ? address.port : port}/mcp (SSE: /sse)`,
+  );
+  return httpServer;
+}
@@ -0,0 +1,98 @@
+import { readdir, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+export type SocketSource = "default" | "explicit" | "glob" | "runtime";
+
+export interface DiscoveredSocket {
+  socketPath: string;
+  source: SocketSource;
+}
+
+/**
+ * The socket used when a tool call does not name an instance.
+ */
+export function defaultSocketPath(): string {
+  return process.env.NVIM_SOCKET_PATH || "/tmp/nvim";
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+async function isSocket(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isSocket();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Expands a glob pattern into the sockets it matches. Wildcards (`*`, `?`)
+ * are only supported in the last path component, e.g. `/tmp/nvim-*`.
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const dir = dirname(pattern);
+  const matcher = globToRegExp(basename(pattern));
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const matches: string[] = [];
+  for (const entry of entries.sort()) {
+    const path = join(dir, entry);
+    if (matcher.test(entry) && (await isSocket(path))) {
+      matches.push(path);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Collects the Neovim sockets this server may talk to, in priority order:
+ * NVIM_SOCKET_PATH, the comma-separated NVIM_SOCKET_PATHS list, the
+ * NVIM_SOCKET_GLOB patterns and finally `$XDG_RUNTIME_DIR/nvim.*`, which is
+ * where nvim creates its server socket by default. Configured paths are
+ * always listed; glob matches only if a socket exists there.
+ */
+export async function discoverSockets(): Promise<DiscoveredSocket[]> {
+  const found = new Map<string, SocketSource>();
+  const add = (socketPath: string, source: SocketSource) => {
+    if (!found.has(socketPath)) {
+      found.set(socketPath, source);
+    }
+  };
+
+  add(defaultSocketPath(), "default");
+  for (const path of splitList(process.env.NVIM_SOCKET_PATHS)) {
+    add(path, "explicit");
+  }
+  for (const pattern of splitList(process.env.NVIM_SOCKET_GLOB)) {
+    for (const path of await expandGlob(pattern)) {
+      add(path, "glob");
+    }
+  }
+  if (process.env.XDG_RUNTIME_DIR) {
+    for (const path of await expandGlob(
+      join(process.env.XDG_RUNTIME_DIR, "nvim.*"),
+    )) {
+      add(path, "runtime");
+    }
+  }
+
+  return Array.from(found, ([socketPath, source]) => ({ socketPath, source }));
+}
@@ -0,0 +1,92 @@
+// Each output stream of a job keeps at most this many characters; older
+// output is dropped first.
+const MAX_OUTPUT_CHARS = 1_000_000;
+// A single read returns at most this many characters of each stream.
+const MAX_READ_CHARS = 50_000;
+
+export interface OutputStream {
+  text: string;
+  // Characters dropped from the start of text to stay within the limit.
+  dropped: number;
+  // Offset (counting dropped characters) up to which output has been read.
+  readOffset: number;
+}
+
+export interface Job {
+  id: number;
+  command: string[];
+  cwd: string;
+  pid: number;
+  startedAt: number;
+  finishedAt: number | null;
+  exitCode: number | null;
+  stdout: OutputStream;
+  stderr: OutputStream;
+}
+
+export interface OutputChunk {
+  text: string;
+  // Output that was dropped before it could be read.
+  skipped: number;
+  // Output left to read after this chunk.
+  remaining: number;
+}
+
+function emptyStream(): OutputStream {
+  return { text: "", dropped: 0, readOffset: 0 };
+}
+
+export function createJob(
+  id: number,
+  command: string[],
+  cwd: string,
+  pid: number,
+): Job {
+  return {
+    id,
+    command,
+    cwd,
+    pid,
+    startedAt: Date.now(),
+    finishedAt: null,
+    exitCode: null,
+    stdout: emptyStream(),
+    stderr: emptyStream(),
+  };
+}
+
+/**
+ * Appends the data of an on_stdout/on_stderr callback. nvim splits output
+ * into a list at newlines, where the first item continues the last line of
+ * the previous chunk, so joining with newlines restores the stream.
+ */
+export function appendOutput(stream: OutputStream, data: string[]): void {
+  stream.text += data.join("\n");
+  const excess = stream.text.length - MAX_OUTPUT_CHARS;
+  if (excess > 0) {
+    stream.text = stream.text.slice(excess);
+    stream.dropped += excess;
+  }
+}
+
+/**
+ * Returns the output that has not been read yet, or everything still kept
+ * with `fromStart`, and advances the read offset.
+ */
+export function readOutput(
+  stream: OutputStream,
+  fromStart = false,
+): OutputChunk {
+  const offset = fromStart
+    ? stream.dropped
+    : Math.max(stream.readOffset, stream.dropped);
+  const skipped = fromStart ? 0 : offset - stream.readOffset;
+  const start = offset - stream.dropped;
+  const text = stream.text.slice(start, start + MAX_READ_CHARS);
+  stream.readOffset = offset + text.length;
+  return {
+    text,
+    skipped,
+    remaining: stream.text.length - start - text.length,
+  };
+}
@@ -0,0 +1,323 @@
+import { fileURLToPath } from "node:url";
+
+// The subset of LSP types the navigation tools read from responses.
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface LspLocation {
+  uri?: string;
+  range?: Range;
+  targetUri?: string;
+  targetRange?: Range;
+  targetSelectionRange?: Range;
+}
+
+interface LspSymbol {
+  name: string;
+  kind: number;
+  containerName?: string;
+  // DocumentSymbol
+  range?: Range;
+  selectionRange?: Range;
+  children?: LspSymbol[];
+  // SymbolInformation / WorkspaceSymbol
+  location?: { uri: string; range?: Range };
+}
+
+type MarkedString = string | { language: string; value: string };
+
+interface LspHover {
+  contents: MarkedString | MarkedString[] | { kind: string; value: string };
+  range?: Range;
+}
+
+export interface Location {
+  uri: string;
+  file: string;
+  // Lines are 1-indexed, columns 0-indexed as reported by the server.
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  snippet?: string;
+}
+
+export interface SymbolInfo {
+  // Dotted path of enclosing symbols, e.g. `MyClass.myMethod`.
+  name: string;
+  kind: string;
+  location?: Location;
+}
+
+export interface HoverInfo {
+  contents: string;
+  location?: Location;
+}
+
+const SYMBOL_KINDS = [
+  "file",
+  "module",
+  "namespace",
+  "package",
+  "class",
+  "method",
+  "property",
+  "field",
+  "constructor",
+  "enum",
+  "interface",
+  "function",
+  "variable",
+  "constant",
+  "string",
+  "number",
+  "boolean",
+  "array",
+  "object",
+  "key",
+  "null",
+  "enumMember",
+  "struct",
+  "event",
+  "operator",
+  "typeParameter",
+];
+
+function uriToPath(uri: string): string {
+  try {
+    return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+  } catch {
+    return uri;
+  }
+}
+
+function toLocation(uri: string, range?: Range): Location {
+  const start = range?.start ?? { line: 0, character: 0 };
+  const end = range?.end ?? start;
+  return {
+    uri,
+    file: uriToPath(uri),
+    startLine: start.line + 1,
+    startColumn: start.character,
+    endLine: end.line + 1,
+    endColumn: end.character,
+  };
+}
+
+/**
+ * Normalizes a definition/references result (Location, Location[] or
+ * LocationLink[]) into a flat list.
+ */
+export function toLocations(result: unknown): Location[] {
+  if (!result) {
+    return [];
+  }
+  const items = (Array.isArray(result) ? result : [result]) as LspLocation[];
+  return items.flatMap((item) => {
+    const uri = item.targetUri ?? item.uri;
+    if (!uri) {
+      return [];
+    }
+    return [
+      toLocation(
+        uri,
+        item.targetSelectionRange ?? item.targetRange ?? item.range,
+      ),
+    ];
+  });
+}
+
+/**
+ * Flattens document or workspace symbols. Nested DocumentSymbols get dotted
+ * names so that a method reads as `MyClass.myMethod`.
+ */
+export function toSymbols(result: unknown, uri?: string): SymbolInfo[] {
+  const symbols: SymbolInfo[] = [];
+  const visit = (items: LspSymbol[], parents: string[]) => {
+    for (const item of items) {
+      const path = [...parents, item.name];
+      const itemUri = item.location?.uri ?? uri;
+      const range = item.location?.range ?? item.range;
+      symbols.push({
+        name:
+          item.containerName && parents.length === 0
+            ? `${item.containerName}.${item.name}`
+            : path.join("."),
+        kind: SYMBOL_KINDS[item.kind - 1] ?? String(item.kind),
+        location: itemUri ? toLocation(itemUri, range) : undefined,
+      });
+      if (item.children) {
+        visit(item.children, path);
+      }
+    }
+  };
+  visit(Array.isArray(result) ? (result as LspSymbol[]) : [], []);
+  return symbols;
+}
+
+export function toHover(result: unknown, uri: string): HoverInfo | null {
+  if (!result) {
+    return null;
+  }
+  const hover = result as LspHover;
+  const render = (content: MarkedString): string =>
+    typeof content === "string"
+      ? content
+      : `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+  const contents = Array.isArray(hover.contents)
+    ? hover.contents.map(render).join("\n")
+    : typeof hover.contents === "object" && "kind" in hover.contents
+      ? hover.contents.value
+      : render(hover.contents);
+  return {
+    contents: contents.trim(),
+    location: hover.range ? toLocation(uri, hover.range) : undefined,
+  };
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+interface ResourceOperation {
+  kind: "create" | "rename" | "delete";
+  uri?: string;
+  oldUri?: string;
+  newUri?: string;
+}
+
+export interface WorkspaceEdit {
+  changes?: { [uri: string]: TextEdit[] };
+  documentChanges?: (
+    { textDocument: { uri: string }; edits: TextEdit[] } | ResourceOperation
+  )[];
+}
+
+export interface FileEdits {
+  uri: string;
+  file: string;
+  edits: TextEdit[];
+}
+
+/**
+ * Splits a WorkspaceEdit into text edits per file. File create, rename and
+ * delete operations are returned separately as descriptions, and the paths
+ * they touch along with those of the edited files in `paths`.
+ */
+export function workspaceEditFiles(edit: WorkspaceEdit): {
+  files: FileEdits[];
+  operations: string[];
+  paths: string[];
+} {
+  const byUri = new Map<string, TextEdit[]>();
+  const operations: string[] = [];
+  const operationPaths: string[] = [];
+  const add = (uri: string, edits: TextEdit[]) =>
+    byUri.set(uri, [...(byUri.get(uri) ?? []), ...edits]);
+
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ("textDocument" in change) {
+        add(change.textDocument.uri, change.edits);
+      } else if (change.kind === "rename") {
+        const oldPath = uriToPath(change.oldUri ?? "");
+        const newPath = uriToPath(change.newUri ?? "");
+        operations.push(`rename ${oldPath} to ${newPath}`);
+        operationPaths.push(oldPath, newPath);
+      } else {
+        const path = uriToPath(change.uri ?? "");
+        operations.push(`${change.kind} ${path}`);
+        operationPaths.push(path);
+      }
+    }
+  } else {
+    for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+      add(uri, edits);
+    }
+  }
+
+  const files = Array.from(byUri, ([uri, edits]) => ({
+    uri,
+    file: uriToPath(uri),
+    edits,
+  }));
+  return {
+    files,
+    operations,
+    paths: [...files.map(({ file }) => file), ...operationPaths],
+  };
+}
+
+// How a language server counts characters, its client's offset_encoding.
+export type OffsetEncoding = "utf-8" | "utf-16" | "utf-32";
+
+/**
+ * Converts a character offset in `encoding` units into an index into the
+ * line as a JavaScript string, which counts UTF-16 code units.
+ */
+function stringIndex(
+  line: string,
+  character: number,
+  encoding: OffsetEncoding,
+): number {
+  if (encoding === "utf-16") {
+    return Math.min(character, line.length);
+  }
+  let units = 0;
+  let index = 0;
+  for (const char of line) {
+    if (units >= character) {
+      break;
+    }
+    units += encoding === "utf-8" ? Buffer.byteLength(char, "utf8") : 1;
+    index += char.length;
+  }
+  return index;
+}
+
+/**
+ * Applies LSP text edits to the lines of a document. Character offsets are
+ * counted in the server's `encoding`, UTF-16 code units by default.
+ */
+export function applyTextEdits(
+  lines: string[],
+  edits: TextEdit[],
+  encoding: OffsetEncoding = "utf-16",
+): string[] {
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const text = lines.join("\n");
+  const toOffset = ({ line, character }: Position) =>
+    line >= lines.length
+      ? text.length
+      : lineStarts[line] + stringIndex(lines[line], character, encoding);
+
+  // Apply from the end so earlier offsets stay valid. Edits at the same
+  // position keep their order, as the LSP spec requires.
+  const sorted = edits
+    .map((edit, index) => ({
+      start: toOffset(edit.range.start),
+      end: toOffset(edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    .sort((a, b) => b.start - a.start || b.index - a.index);
+
+  let result = text;
+  for (const { start, end, newText } of sorted) {
+    result = result.slice(0, start) + newText + result.slice(end);
+  }
+  return result.split("\n");
+}
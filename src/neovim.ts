@@ -1,4 +1,154 @@
-import { attach, Neovim } from "neovim";
+import { ChildProcess } from "node:child_process";
+import { createHash } from "node:crypto";
+import { createConnection, Socket } from "node:net";
+import { attach, Buffer as NeovimBuffer, NeovimClient } from "neovim";
+import { unifiedDiff } from "./diff.js";
+import { embedMode, spawnEmbedded } from "./embed.js";
+import { formatterFor } from "./format.js";
+import {
+  applyTextEdits,
+  HoverInfo,
+  Location,
+  OffsetEncoding,
+  SymbolInfo,
+  toHover,
+  toLocations,
+  toSymbols,
+  WorkspaceEdit,
+  workspaceEditFiles,
+} from "./lsp.js";
+import {
+  appendOutput,
+  createJob,
+  Job,
+  OutputChunk,
+  readOutput,
+} from "./jobs.js";
+import { applyHunks, FilePatch, HunkResult, parsePatch } from "./patch.js";
+import {
+  commandDenial,
+  commandTarget,
+  hasWorkspaceRoot,
+  parseExCommands,
+  pathDenial,
+  PolicyDenial,
+  shellRun,
+} from "./policy.js";
+import { commandRejection, hasCommandLists, splitCommand } from "./shell.js";
+import {
+  defaultSocketPath,
+  discoverSockets,
+  SocketSource,
+} from "./instances.js";
+
+// Delays between reconnect attempts; the last entry is reused as the cap.
+const RECONNECT_BACKOFF_MS = [100, 250, 500, 1000];
+const MAX_CONNECT_ATTEMPTS = 4;
+const CONNECT_TIMEOUT_MS = 2000;
+// A cached client is pinged again only if it has been idle this long.
+const HEALTH_CHECK_INTERVAL_MS = 5000;
+// How long to wait for language servers to answer a request.
+const LSP_TIMEOUT_MS = 5000;
+// Snippets attached to LSP locations are cut to this many lines.
+const MAX_SNIPPET_LINES = 5;
+// Treesitter query results are cut to this many captures.
+const MAX_QUERY_CAPTURES = 500;
+// A terminal read returns at most this many lines; the rest is left for the
+// next read.
+const MAX_TERMINAL_READ_LINES = 1000;
+// How often a terminal is checked while waiting for its job to exit.
+const TERMINAL_POLL_MS = 200;
+// Finished jobs are forgotten, oldest first, beyond this many.
+const MAX_FINISHED_JOBS = 20;
+// Snapshots kept per buffer for conflict diffs, oldest dropped first.
+const MAX_SNAPSHOTS = 4;
+// RPC notification through which jobs report output and exit to this server.
+const JOB_NOTIFICATION = "mcp_job";
+// RPC notification through which autocmds report editor changes.
+const CHANGE_NOTIFICATION = "mcp_change";
+const WATCHED_AUTOCMDS = [
+  "BufEnter",
+  "BufAdd",
+  "BufDelete",
+  "BufWritePost",
+  "BufModifiedSet",
+  "TextChanged",
+  "TextChangedI",
+  "DirChanged",
+  "DiagnosticChanged",
+];
+
+// Collects the functions, classes, methods, ... of a buffer from its
+// treesitter tree. Node types are matched by name (e.g. function_item,
+// class_declaration, method_definition) so that it works for most grammars
+// without per-language queries. Nested symbols get dotted names.
+const TREESITTER_OUTLINE_LUA = `
+local bufnr = ...
+local ok, parser = pcall(vim.treesitter.get_parser, bufnr)
+if not ok or not parser then
+  return { error = "no_parser", filetype = vim.bo[bufnr].filetype }
+end
+local root = parser:parse()[1]:root()
+
+local kinds = {
+  { "class", "class" }, { "interface", "interface" }, { "struct", "struct" },
+  { "enum", "enum" }, { "trait", "trait" }, { "impl", "impl" },
+  { "module", "module" }, { "namespace", "module" }, { "method", "method" },
+  { "function", "function" }, { "func", "function" },
+}
+local function kind_of(node)
+  local type = node:type()
+  if type == "variable_declarator" then
+    local value = node:field("value")[1]
+    if value and (value:type() == "arrow_function" or value:type():find("function")) then
+      return "function"
+    end
+    return nil
+  end
+  if not (type:find("_definition$") or type:find("_declaration$")
+      or type:find("_item$") or type:find("_specifier$")) then
+    return nil
+  end
+  for _, entry in ipairs(kinds) do
+    if type:find(entry[1], 1, true) then
+      return entry[2]
+    end
+  end
+  return nil
+end
+
+local symbols = {}
+local function visit(node, parents)
+  for child in node:iter_children() do
+    local kind = child:named() and kind_of(child)
+    local path = parents
+    if kind then
+      local name_node = child:field("name")[1] or child:field("type")[1]
+      local name = name_node and vim.treesitter.get_node_text(name_node, bufnr) or "<anonymous>"
+      path = vim.list_extend(vim.list_slice(parents), { name })
+      local start_row, start_col, end_row, end_col = child:range()
+      table.insert(symbols, {
+        name = table.concat(path, "."),
+        kind = kind,
+        type = child:type(),
+        startLine = start_row + 1,
+        startColumn = start_col,
+        endLine = end_row + 1,
+        endColumn = end_col,
+      })
+    end
+    visit(child, path)
+  end
+end
+visit(root, {})
+return { symbols = symbols }
+`;
+
+/**
+ * Identifies a buffer by its number or by a file path. Paths that are not
+ * open yet are loaded into a hidden buffer.
+ */
+export type BufferTarget = number | string;
 
 interface NeovimStatus {
   cursorPosition: [number, number];
@@ -22,6 +172,179 @@ interface BufferInfo {
   windowIds: number[];
 }
 
+interface BufferState {
+  bufferId: number;
+  changedtick: number;
+  hash: string;
+  lineCount: number;
+}
+
+interface Diagnostic {
+  bufferId: number;
+  file: string;
+  severity: "error" | "warning" | "info" | "hint";
+  // Lines are 1-indexed, columns 0-indexed byte offsets.
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+  source?: string;
+  code?: string | number;
+}
+
+interface WorkspaceEditPreview {
+  // Per-file unified diffs of the text changes.
+  files: { file: string; diff: string }[];
+  // File create/rename/delete operations, described in words.
+  operations: string[];
+  applied: boolean;
+}
+
+interface CodeActionInfo {
+  index: number;
+  title: string;
+  kind?: string;
+  isPreferred?: boolean;
+  hasEdit: boolean;
+  command?: string;
+}
+
+type LspCommand = {
+  title: string;
+  command: string;
+  arguments?: unknown[];
+};
+
+// Type aliases rather than interfaces so they can be passed to nvim.lua().
+type LspCodeAction = {
+  title: string;
+  kind?: string;
+  isPreferred?: boolean;
+  edit?: WorkspaceEdit;
+  // A Command, or for bare Command results the command id itself.
+  command?: LspCommand | string;
+  arguments?: unknown[];
+};
+
+interface OutlineSymbol {
+  // Dotted path of enclosing symbols, e.g. `MyClass.myMethod`.
+  name: string;
+  kind: string;
+  // Treesitter node type, e.g. `method_definition`.
+  type: string;
+  // Lines are 1-indexed, columns 0-indexed byte offsets.
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+interface TreesitterNode {
+  type: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+  // Types of the enclosing nodes, innermost first.
+  ancestors: string[];
+}
+
+interface TreesitterCapture {
+  capture: string;
+  type: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+}
+
+interface TreesitterQueryResult {
+  captures: TreesitterCapture[];
+  // Whether captures past MAX_QUERY_CAPTURES were left out.
+  truncated: boolean;
+}
+
+interface TerminalInfo {
+  bufferId: number;
+  // Channel of the terminal job, used for sending input.
+  channel: number;
+  // PID of the process running in the terminal.
+  pid: number;
+}
+
+interface TerminalOutput {
+  bufferId: number;
+  // 1-indexed line range of the returned lines; pass nextLine as fromLine
+  // to continue reading.
+  startLine: number;
+  nextLine: number;
+  lines: string[];
+  // Lines left to read after this call.
+  remaining: number;
+  running: boolean;
+  exitCode: number | null;
+}
+
+interface JobStatus {
+  id: number;
+  command: string[];
+  cwd: string;
+  pid: number;
+  running: boolean;
+  exitCode: number | null;
+  // Seconds since start, or until exit for finished jobs.
+  runtime: number;
+}
+
+interface JobOutput extends JobStatus {
+  stdout: OutputChunk;
+  stderr: OutputChunk;
+}
+
+export interface ChangeEvent {
+  // The autocmd that fired, e.g. "BufEnter", or "lines" for a change to a
+  // watched buffer reported by nvim_buf_attach.
+  event: string;
+  bufferId: number;
+}
+
+interface FormatResult {
+  status: "formatted" | "unchanged" | "skipped" | "failed";
+  formatter?: string;
+  // First and last line (1-indexed, after formatting) touched by the formatter.
+  changedLines?: [number, number];
+  // Whether the formatter touched lines outside of the edited range.
+  changedOutsideEdit?: boolean;
+  error?: string;
+}
+
+export interface EditOperation {
+  mode: "insert" | "replace" | "delete";
+  startLine: number;
+  endLine?: number;
+  lines?: string;
+}
+
+export interface FilePatchResult {
+  file: string;
+  bufferId?: number;
+  hunks: HunkResult[];
+}
+
+interface InstanceInfo {
+  socketPath: string;
+  source: SocketSource;
+  connected: boolean;
+  // Whether this is an nvim child started with NVIM_EMBED.
+  embedded?: boolean;
+  cwd?: string;
+  currentFile?: string;
+  error?: string;
+}
+
 interface WindowInfo {
   id: number;
   bufferId: number;
@@ -31,103 +354,1057 @@ interface WindowInfo {
   col: number;
 }
 
+/**
+ * Base class of the errors tools report to clients. `code` identifies the
+ * kind of error, e.g. `invalid-range`; the other fields of an error are
+ * passed along as details.
+ */
+export abstract class ToolError extends Error {
+  public abstract readonly code: string;
+}
+
+/**
+ * Raised when no Neovim instance can be reached on the configured socket.
+ * Methods rethrow it instead of returning an empty result so tools can
+ * report the problem to the client.
+ */
+export class NeovimConnectionError extends ToolError {
+  public readonly code = "not-connected";
+
+  constructor(
+    public readonly socketPath: string,
+    cause?: unknown,
+    embedded = false,
+  ) {
+    const reason = cause instanceof Error ? `: ${cause.message}` : "";
+    super(
+      embedded
+        ? `Not connected to Neovim: the embedded nvim could not be started${reason}. ` +
+            "Install nvim or set NVIM_BIN."
+        : `Not connected to Neovim: nothing is listening on ${socketPath}${reason}. ` +
+            "Start nvim with --listen or set NVIM_SOCKET_PATH.",
+    );
+    this.name = "NeovimConnectionError";
+  }
+}
+
+/**
+ * Raised when a buffer number does not exist in the target instance.
+ */
+export class BufferNotFoundError extends ToolError {
+  public readonly code = "buffer-not-found";
+
+  constructor(public readonly target: BufferTarget) {
+    super(`No buffer found for ${target}`);
+    this.name = "BufferNotFoundError";
+  }
+}
+
+/**
+ * Raised when an edit carries an `expectedTick` that no longer matches the
+ * buffer's b:changedtick, i.e. the buffer was modified since it was read.
+ */
+export class BufferConflictError extends ToolError {
+  public readonly code = "conflict";
+
+  constructor(
+    public readonly bufferId: number,
+    public readonly expectedTick: number,
+    public readonly currentTick: number,
+    public readonly diff: string,
+    public readonly current: string,
+  ) {
+    super(
+      `Buffer ${bufferId} changed since it was read (expected changedtick ${expectedTick}, found ${currentTick}). Re-read the buffer and retry the edit.`,
+    );
+    this.name = "BufferConflictError";
+  }
+}
+
+/**
+ * Raised when the text to replace is missing from the buffer, or matches
+ * more than once without an explicit occurrence.
+ */
+export class TextMatchError extends ToolError {
+  public readonly code = "text-mismatch";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TextMatchError";
+  }
+}
+
+/**
+ * Raised when an edit targets lines outside the buffer.
+ */
+export class InvalidRangeError extends ToolError {
+  public readonly code = "invalid-range";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRangeError";
+  }
+}
+
+/**
+ * Raised when a language server request cannot be answered, most often
+ * because no LSP client is attached to the buffer.
+ */
+export class LspError extends ToolError {
+  public readonly code = "lsp-error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "LspError";
+  }
+}
+
+/**
+ * Raised when a buffer has no treesitter parser or a query is invalid.
+ */
+export class TreesitterError extends ToolError {
+  public readonly code = "treesitter-error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TreesitterError";
+  }
+}
+
+/**
+ * Raised when a terminal tool targets a buffer that is not a terminal.
+ */
+export class TerminalError extends ToolError {
+  public readonly code = "terminal-error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TerminalError";
+  }
+}
+
+/**
+ * Raised when the policy file (NVIM_POLICY) forbids a command or path.
+ */
+export class PolicyDeniedError extends ToolError {
+  public readonly code = "policy-denied";
+
+  public readonly rule: string;
+
+  constructor({ rule, reason }: PolicyDenial) {
+    super(reason);
+    this.name = "PolicyDeniedError";
+    this.rule = rule;
+  }
+}
+
+function assertPolicy(denial: PolicyDenial | null): void {
+  if (denial) {
+    throw new PolicyDeniedError(denial);
+  }
+}
+
+/**
+ * Raised when a shell command, terminal or job may not be started.
+ */
+export class ShellCommandError extends ToolError {
+  public readonly code = "shell-command-rejected";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ShellCommandError";
+  }
+}
+
+/**
+ * Raised when a job tool names a job this server did not start.
+ */
+export class JobNotFoundError extends ToolError {
+  public readonly code = "job-not-found";
+
+  constructor(public readonly jobId: number) {
+    super(`No job ${jobId}; use vim_job_status to list the jobs`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+/**
+ * Raised when nvim rejects a command or API call. `errmsg` is nvim's error
+ * message as it would appear in v:errmsg, e.g. `E492: Not an editor command`.
+ */
+export class VimError extends ToolError {
+  public readonly code = "vim-error";
+
+  constructor(public readonly errmsg: string) {
+    super(`Vim error: ${errmsg}`);
+    this.name = "VimError";
+  }
+}
+
+/**
+ * Raised when an argument is not one the tool supports, e.g. a mark,
+ * register or window command, an unknown instance or a malformed patch.
+ */
+export class InvalidArgumentError extends ToolError {
+  public readonly code = "invalid-argument";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidArgumentError";
+  }
+}
+
+/**
+ * Raised when hunks of a patch did not apply. The others were applied;
+ * `files` holds the result of every hunk per file.
+ */
+export class PatchError extends ToolError {
+  public readonly code = "patch-failed";
+
+  constructor(public readonly files: FilePatchResult[]) {
+    const hunks = files.flatMap(({ hunks }) => hunks);
+    const failed = hunks.filter(({ applied }) => !applied).length;
+    super(`${failed} of ${hunks.length} hunk(s) did not apply`);
+    this.name = "PatchError";
+  }
+}
+
+/**
+ * Turns the error of a failed nvim request into a VimError. The client
+ * reports them as `<method>: <message>`, where errors of Ex commands are
+ * prefixed with `Vim(<command>):`. Other errors are returned unchanged.
+ */
+export function vimError(error: unknown): unknown {
+  const match =
+    error instanceof Error &&
+    !(error instanceof ToolError) &&
+    error.message.match(/^nvim_\w+: (?:Vim(?:\([^)]*\))?:)?([\s\S]*)$/);
+  return match ? new VimError(match[1]) : error;
+}
+
+// Terminals and jobs run arbitrary shell commands, so they are gated like `!`
+// commands.
+function assertShellAllowed(): void {
+  if (process.env.ALLOW_SHELL_COMMANDS !== "true") {
+    throw new ShellCommandError(
+      "Shell command execution is disabled. Set ALLOW_SHELL_COMMANDS=true environment variable to enable shell commands, terminals and jobs.",
+    );
+  }
+}
+
+/**
+ * Turns a command line or argument list into the argument list that is
+ * run, checking it against ALLOW_SHELL_COMMANDS and the allow/denylist.
+ */
+async function prepareCommand(
+  nvim: NeovimClient,
+  command: string | string[],
+): Promise<string[]> {
+  assertShellAllowed();
+  let argv: string[];
+  try {
+    argv = typeof command === "string" ? splitCommand(command) : command;
+  } catch (error) {
+    throw new ShellCommandError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  if (argv.length === 0 || argv[0] === "") {
+    throw new ShellCommandError("Command is empty");
+  }
+  // Paths are run as given, relative ones from the job's directory.
+  const executable = argv[0].includes("/")
+    ? argv[0]
+    : String(await nvim.call("exepath", [argv[0]]));
+  const rejection = commandRejection(argv, executable);
+  if (rejection) {
+    throw new ShellCommandError(`Command rejected: ${rejection}`);
+  }
+  return argv;
+}
+
+function hashLines(lines: string[]): string {
+  return createHash("sha256")
+    .update(lines.join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`timed out after ${ms}ms`)),
+      ms,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+// The Ex commands manipulateWindow runs.
+export const WINDOW_COMMANDS = [
+  "split",
+  "vsplit",
+  "only",
+  "close",
+  "wincmd h",
+  "wincmd j",
+  "wincmd k",
+  "wincmd l",
+] as const;
+
+export type WindowCommand = (typeof WINDOW_COMMANDS)[number];
+
 export class NeovimManager {
-  private static instance: NeovimManager;
+  private static instances = new Map<string, NeovimManager>();
+
+  private client: NeovimClient | null = null;
+  private socket: Socket | null = null;
+  // The embedded nvim, when the client talks to a child instead of a socket.
+  private child: ChildProcess | null = null;
+  private pendingConnect: Promise<NeovimClient> | null = null;
+  private lastHealthyAt = 0;
+  // Contents read per buffer by changedtick, used to show what changed on a
+  // conflict since the tick the caller read.
+  private snapshots = new Map<number, Map<number, string[]>>();
+
+  // Next line (1-indexed) to read from each terminal buffer.
+  private terminalCursors = new Map<number, number>();
+  // Jobs started through startJob, by nvim job id.
+  private jobs = new Map<number, Job>();
+  // Output and exit events of jobs startJob has not registered yet.
+  private unclaimedJobEvents = new Map<number, [string, unknown][]>();
+  private changeListener: ((change: ChangeEvent) => void) | null = null;
+  // The client the change autocmds were installed through.
+  private watchedClient: NeovimClient | null = null;
+  // Buffers whose line changes are reported, with the function that stops
+  // listening (null until attached).
+  private watchedBuffers = new Map<number, (() => void) | null>();
 
-  private constructor() {}
+  private constructor(public readonly socketPath: string) {}
 
-  public static getInstance(): NeovimManager {
-    if (!NeovimManager.instance) {
-      NeovimManager.instance = new NeovimManager();
+  /**
+   * Returns the manager for the given socket, creating it on first use.
+   * Without a socket the default NVIM_SOCKET_PATH instance is returned.
+   */
+  public static getInstance(
+    socketPath: string = defaultSocketPath(),
+  ): NeovimManager {
+    let manager = NeovimManager.instances.get(socketPath);
+    if (!manager) {
+      manager = new NeovimManager(socketPath);
+      NeovimManager.instances.set(socketPath, manager);
     }
-    return NeovimManager.instance;
+    return manager;
   }
 
-  private async connect(): Promise<Neovim> {
-    try {
-      const socketPath = process.env.NVIM_SOCKET_PATH || "/tmp/nvim";
-      return attach({
-        socket: socketPath,
+  /**
+   * Resolves the `instance` argument of a tool call to a manager. Only
+   * sockets reported by discovery may be targeted.
+   */
+  public static async resolve(instance?: string): Promise<NeovimManager> {
+    if (!instance) {
+      return NeovimManager.getInstance();
+    }
+    const sockets = await discoverSockets();
+    if (!sockets.some(({ socketPath }) => socketPath === instance)) {
+      const known = sockets.map(({ socketPath }) => socketPath).join(", ");
+      throw new InvalidArgumentError(
+        `Unknown Neovim instance: ${instance}. Known instances: ${known}`,
+      );
+    }
+    return NeovimManager.getInstance(instance);
+  }
+
+  public static async listInstances(): Promise<InstanceInfo[]> {
+    const sockets = await discoverSockets();
+    return Promise.all(
+      sockets.map(({ socketPath, source }) =>
+        NeovimManager.getInstance(socketPath).describe(source),
+      ),
+    );
+  }
+
+  /**
+   * Returns the cached client, reconnecting if the socket was closed or the
+   * client stopped answering (e.g. because nvim was restarted).
+   */
+  private async connect(
+    attempts: number = MAX_CONNECT_ATTEMPTS,
+  ): Promise<NeovimClient> {
+    if (this.client && (await this.isHealthy(this.client))) {
+      return this.client;
+    }
+    this.disconnect();
+
+    // Concurrent tool calls share a single reconnect attempt.
+    if (!this.pendingConnect) {
+      this.pendingConnect = this.connectWithBackoff(attempts).finally(() => {
+        this.pendingConnect = null;
       });
+    }
+    return this.pendingConnect;
+  }
+
+  private async isHealthy(client: NeovimClient): Promise<boolean> {
+    const open = this.child
+      ? this.child.exitCode === null && this.child.signalCode === null
+      : this.socket !== null && !this.socket.destroyed;
+    if (!open) {
+      return false;
+    }
+    if (Date.now() - this.lastHealthyAt < HEALTH_CHECK_INTERVAL_MS) {
+      return true;
+    }
+    try {
+      await withTimeout(client.eval("1"), CONNECT_TIMEOUT_MS);
+      this.lastHealthyAt = Date.now();
+      return true;
+    } catch (error) {
+      console.error("Neovim health check failed:", error);
+      return false;
+    }
+  }
+
+  private async connectWithBackoff(attempts: number): Promise<NeovimClient> {
+    const socketPath = this.socketPath;
+    // Only the default instance can be embedded; other sockets are always
+    // real, user-started instances.
+    const embed = socketPath === defaultSocketPath() ? embedMode() : null;
+    if (embed === "always") {
+      return this.openEmbedded();
+    }
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        const backoff =
+          RECONNECT_BACKOFF_MS[
+            Math.min(attempt - 1, RECONNECT_BACKOFF_MS.length - 1)
+          ];
+        await delay(backoff);
+      }
+      try {
+        return await this.openClient(socketPath);
+      } catch (error) {
+        lastError = error;
+        console.error(
+          `Error connecting to Neovim at ${socketPath} (attempt ${attempt + 1}/${attempts}):`,
+          error,
+        );
+      }
+    }
+
+    if (embed === "fallback") {
+      console.error(
+        `Nothing is listening on ${socketPath}, starting an embedded nvim`,
+      );
+      return this.openEmbedded();
+    }
+    throw new NeovimConnectionError(socketPath, lastError);
+  }
+
+  /**
+   * Starts an embedded `nvim --embed --headless` and talks to it over its
+   * stdio. It lives until this server exits or it stops answering.
+   */
+  private async openEmbedded(): Promise<NeovimClient> {
+    let child: ChildProcess;
+    try {
+      child = await spawnEmbedded();
+    } catch (error) {
+      throw new NeovimConnectionError(this.socketPath, error, true);
+    }
+    const client = attach({ proc: child });
+    child.on("exit", () => {
+      if (this.child === child) {
+        this.client = null;
+        this.child = null;
+      }
+    });
+
+    try {
+      await withTimeout(client.channelId, CONNECT_TIMEOUT_MS);
     } catch (error) {
-      console.error("Error connecting to Neovim:", error);
+      child.kill();
+      throw new NeovimConnectionError(this.socketPath, error, true);
+    }
+
+    this.child = child;
+    return this.adoptClient(client);
+  }
+
+  private async openClient(socketPath: string): Promise<NeovimClient> {
+    // Open the socket ourselves so that a missing listener surfaces as a
+    // rejected promise instead of an unhandled 'error' event.
+    const socket = await withTimeout(
+      new Promise<Socket>((resolve, reject) => {
+        const conn = createConnection(socketPath);
+        conn.once("connect", () => {
+          conn.off("error", reject);
+          resolve(conn);
+        });
+        conn.once("error", reject);
+      }),
+      CONNECT_TIMEOUT_MS,
+    );
+
+    const client = attach({ reader: socket, writer: socket });
+    socket.on("error", (error) => {
+      console.error("Neovim socket error:", error);
+    });
+    socket.on("close", () => {
+      if (this.socket === socket) {
+        this.client = null;
+        this.socket = null;
+      }
+    });
+
+    try {
+      // channelId resolves once the API handshake has completed.
+      await withTimeout(client.channelId, CONNECT_TIMEOUT_MS);
+    } catch (error) {
+      socket.destroy();
       throw error;
     }
+
+    this.socket = socket;
+    return this.adoptClient(client);
   }
 
-  public async getBufferContents(): Promise<Map<number, string>> {
+  /**
+   * Makes a connected client the cached one and sets up what depends on
+   * the connection: job and change notifications.
+   */
+  private async adoptClient(client: NeovimClient): Promise<NeovimClient> {
+    client.on("notification", (method: string, args: unknown[]) =>
+      this.handleNotification(method, args),
+    );
+
+    this.client = client;
+    this.lastHealthyAt = Date.now();
+    if (this.changeListener) {
+      await this.installWatch(client);
+    }
+    return client;
+  }
+
+  private handleNotification(method: string, args: unknown[]): void {
+    if (method === JOB_NOTIFICATION) {
+      const [jobId, event, data] = args as [number, string, unknown];
+      const job = this.jobs.get(jobId);
+      if (job) {
+        this.applyJobEvent(job, event, data);
+      } else {
+        // A fast job can report before startJob has registered it.
+        const events = this.unclaimedJobEvents.get(jobId) ?? [];
+        events.push([event, data]);
+        this.unclaimedJobEvents.set(jobId, events);
+      }
+    } else if (method === CHANGE_NOTIFICATION) {
+      const [event, bufferId] = args as [string, number];
+      this.changeListener?.({ event, bufferId });
+    }
+  }
+
+  private applyJobEvent(job: Job, event: string, data: unknown): void {
+    if (event === "exit") {
+      job.exitCode = data as number;
+      job.finishedAt = Date.now();
+      this.pruneJobs();
+    } else {
+      appendOutput(
+        event === "stderr" ? job.stderr : job.stdout,
+        data as string[],
+      );
+    }
+  }
+
+  /**
+   * Reports editor changes to `listener`: buffer switches, writes, new and
+   * deleted buffers, directory and diagnostic changes through autocmds, and
+   * every line change of the buffers passed to watchBuffer. The watch is
+   * installed again whenever the connection is re-established.
+   */
+  public async watchChanges(
+    listener: (change: ChangeEvent) => void,
+  ): Promise<void> {
+    this.changeListener = listener;
+    const client = await this.connect(1);
+    if (this.watchedClient !== client) {
+      await this.installWatch(client);
+    }
+  }
+
+  private async installWatch(client: NeovimClient): Promise<void> {
     try {
-      const nvim = await this.connect();
-      const buffer = await nvim.buffer;
-      const lines = await buffer.lines;
-      const lineMap = new Map<number, string>();
+      const channel = await client.channelId;
+      await client.lua(
+        `
+        local channel, method, events = ...
+        local group = vim.api.nvim_create_augroup("mcp_neovim_server_" .. channel, { clear = true })
+        vim.api.nvim_create_autocmd(events, {
+          group = group,
+          callback = function(args)
+            -- Returning true removes the autocmd once the server is gone.
+            return not pcall(vim.rpcnotify, channel, method, args.event, args.buf)
+          end,
+        })
+        `,
+        [channel, CHANGE_NOTIFICATION, WATCHED_AUTOCMDS],
+      );
+      this.watchedClient = client;
+      for (const bufferId of this.watchedBuffers.keys()) {
+        await this.listenToBuffer(client, bufferId);
+      }
+    } catch (error) {
+      console.error("Error installing change autocmds:", error);
+    }
+  }
 
-      lines.forEach((line: string, index: number) => {
-        lineMap.set(index + 1, line);
-      });
+  private async listenToBuffer(
+    client: NeovimClient,
+    bufferId: number,
+  ): Promise<void> {
+    const buffer = (await client.buffers).find(({ id }) => id === bufferId);
+    if (!buffer) {
+      return;
+    }
+    const unlisten = buffer.listen("lines", () =>
+      this.changeListener?.({ event: "lines", bufferId }),
+    );
+    this.watchedBuffers.set(bufferId, unlisten as () => void);
+  }
+
+  /**
+   * Reports every change to the lines of a buffer, including changes made
+   * in the background or by other clients, with nvim_buf_attach.
+   */
+  public async watchBuffer(bufferId: number): Promise<void> {
+    if (this.watchedBuffers.has(bufferId)) {
+      return;
+    }
+    this.watchedBuffers.set(bufferId, null);
+    if (this.watchedClient && this.watchedClient === this.client) {
+      await this.listenToBuffer(this.watchedClient, bufferId);
+    }
+  }
 
-      return lineMap;
+  public unwatchBuffer(bufferId: number): void {
+    this.watchedBuffers.get(bufferId)?.();
+    this.watchedBuffers.delete(bufferId);
+  }
+
+  /**
+   * Drops the cached client and closes its socket, or stops the embedded
+   * nvim.
+   */
+  public disconnect(): void {
+    const socket = this.socket;
+    const child = this.child;
+    this.client = null;
+    this.socket = null;
+    this.child = null;
+    socket?.destroy();
+    child?.kill();
+  }
+
+  /**
+   * Summarises this instance for `nvim://instances`. Stale sockets are
+   * common in the runtime directory, so only a single attempt is made.
+   */
+  private async describe(source: SocketSource): Promise<InstanceInfo> {
+    try {
+      const nvim = await this.connect(1);
+      const buffer = await nvim.buffer;
+      const [cwd, currentFile] = await Promise.all([
+        nvim.call("getcwd"),
+        buffer.name,
+      ]);
+      return {
+        socketPath: this.socketPath,
+        source,
+        connected: true,
+        embedded: this.child !== null,
+        cwd: String(cwd),
+        currentFile,
+      };
     } catch (error) {
-      console.error("Error getting buffer contents:", error);
-      return new Map();
+      return {
+        socketPath: this.socketPath,
+        source,
+        connected: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
-  public async sendCommand(command: string): Promise<string> {
+  /**
+   * Looks up the buffer a tool call refers to without changing the current
+   * window. Defaults to the current buffer.
+   */
+  private async resolveBuffer(
+    nvim: NeovimClient,
+    target?: BufferTarget,
+  ): Promise<NeovimBuffer> {
+    if (target === undefined) {
+      return nvim.buffer;
+    }
+
+    const buffers = await nvim.buffers;
+    let buffer: NeovimBuffer | undefined;
+    if (typeof target === "number" || /^\d+$/.test(target)) {
+      buffer = buffers.find(({ id }) => id === Number(target));
+    } else {
+      const fullPath = String(await nvim.call("fnamemodify", [target, ":p"]));
+      assertPolicy(pathDenial(fullPath));
+      for (const candidate of buffers) {
+        if ((await candidate.name) === fullPath) {
+          buffer = candidate;
+          break;
+        }
+      }
+      if (!buffer) {
+        const bufnr = Number(await nvim.call("bufadd", [fullPath]));
+        buffer = (await nvim.buffers).find(({ id }) => id === bufnr);
+      }
+    }
+
+    if (!buffer) {
+      throw new BufferNotFoundError(target);
+    }
+    if (!(await buffer.loaded)) {
+      await nvim.call("bufload", [buffer.id]);
+    }
+    return buffer;
+  }
+
+  /**
+   * Like resolveBuffer, for buffers that are about to be edited: their file
+   * must lie inside the policy's workspace root.
+   */
+  private async resolveWritableBuffer(
+    nvim: NeovimClient,
+    target?: BufferTarget,
+  ): Promise<NeovimBuffer> {
+    const buffer = await this.resolveBuffer(nvim, target);
+    const name = await buffer.name;
+    if (name) {
+      assertPolicy(pathDenial(name));
+    }
+    return buffer;
+  }
+
+  /**
+   * Reads the lines and changedtick of a buffer in one Lua call, so the tick
+   * always belongs to the lines returned with it, and remembers them to show
+   * what changed on a later conflict.
+   */
+  private async readLines(
+    nvim: NeovimClient,
+    buffer: NeovimBuffer,
+  ): Promise<{ lines: string[]; changedtick: number }> {
+    // Snapshots of buffers that were wiped since are dropped along the way.
+    const [lines, changedtick, wiped] = (await nvim.lua(
+      `
+      local bufnr, known = ...
+      local wiped = {}
+      for _, id in ipairs(known) do
+        if not vim.api.nvim_buf_is_valid(id) then
+          table.insert(wiped, id)
+        end
+      end
+      return {
+        vim.api.nvim_buf_get_lines(bufnr, 0, -1, true),
+        vim.api.nvim_buf_get_changedtick(bufnr),
+        wiped,
+      }
+      `,
+      [buffer.id, Array.from(this.snapshots.keys())],
+    )) as [string[], number, number[]];
+    for (const id of wiped) {
+      this.snapshots.delete(id);
+    }
+    const snapshots = this.snapshots.get(buffer.id) ?? new Map();
+    snapshots.delete(changedtick);
+    snapshots.set(changedtick, lines);
+    for (const tick of snapshots.keys()) {
+      if (snapshots.size <= MAX_SNAPSHOTS) {
+        break;
+      }
+      snapshots.delete(tick);
+    }
+    this.snapshots.set(buffer.id, snapshots);
+    return { lines, changedtick };
+  }
+
+  /**
+   * Reads the lines of a buffer together with its state.
+   */
+  public async readBuffer(
+    target?: BufferTarget,
+  ): Promise<{ lines: string[]; state: BufferState }> {
     try {
       const nvim = await this.connect();
+      const buffer = await this.resolveBuffer(nvim, target);
+      const { lines, changedtick } = await this.readLines(nvim, buffer);
+      return {
+        lines,
+        state: {
+          bufferId: buffer.id,
+          changedtick,
+          hash: hashLines(lines),
+          lineCount: lines.length,
+        },
+      };
+    } catch (error) {
+      throw vimError(error);
+    }
+  }
+
+  /**
+   * Replaces lines start..end (0-indexed, end exclusive) with one
+   * nvim_buf_set_lines call. With `expectedTick`, the changedtick is checked
+   * in the same Lua chunk, so no change can slip in between the check and
+   * the edit; if it moved, nothing is written and the conflict is thrown
+   * with the lines firstLine..lastLine (1-indexed) for context.
+   */
+  private async setLinesChecked(
+    nvim: NeovimClient,
+    buffer: NeovimBuffer,
+    start: number,
+    end: number,
+    lines: string[],
+    expectedTick: number | undefined,
+    [firstLine, lastLine]: [number, number],
+  ): Promise<void> {
+    const currentTick = (await nvim.lua(
+      `
+      local bufnr, start, finish, lines, check, expected = ...
+      local tick = vim.api.nvim_buf_get_changedtick(bufnr)
+      if check and expected ~= tick then
+        return tick
+      end
+      vim.api.nvim_buf_set_lines(bufnr, start, finish, true, lines)
+      return nil
+      `,
+      [
+        buffer.id,
+        start,
+        end,
+        lines,
+        expectedTick !== undefined,
+        expectedTick ?? 0,
+      ],
+    )) as number | null;
+    if (currentTick === null || expectedTick === undefined) {
+      return;
+    }
 
-      // Remove leading colon if present
-      const normalizedCommand = command.startsWith(":")
-        ? command.substring(1)
-        : command;
+    const current = await buffer.lines;
+    const snapshot = this.snapshots.get(buffer.id)?.get(expectedTick);
+    const diff = snapshot
+      ? unifiedDiff(snapshot, current, {
+          oldName: `changedtick ${expectedTick}`,
+          newName: `changedtick ${currentTick}`,
+        })
+      : "";
+    const first = Math.max(1, firstLine - 3);
+    const last = Math.min(current.length, lastLine + 3);
+    const context = current
+      .slice(first - 1, last)
+      .map((line, index) => `${first + index}: ${line}`)
+      .join("\n");
 
+    throw new BufferConflictError(
+      buffer.id,
+      expectedTick,
+      currentTick,
+      diff,
+      context,
+    );
+  }
+
+  /**
+   * Opens a file in the current window. The path is escaped rather than
+   * spliced into the command, and must lie inside the workspace root.
+   */
+  public async openFile(path: string): Promise<void> {
+    const nvim = await this.connect();
+    const fullPath = String(await nvim.call("fnamemodify", [path, ":p"]));
+    assertPolicy(pathDenial(fullPath));
+    const escaped = String(await nvim.call("fnameescape", [path]));
+    await nvim.command(`edit ${escaped}`);
+  }
+
+  public async sendCommand(command: string): Promise<string> {
+    // Remove leading colon if present
+    const normalizedCommand = command.startsWith(":")
+      ? command.substring(1)
+      : command;
+    assertPolicy(commandDenial(normalizedCommand));
+
+    try {
       // Handle shell commands (starting with !)
       if (normalizedCommand.startsWith("!")) {
-        if (process.env.ALLOW_SHELL_COMMANDS !== "true") {
-          return "Shell command execution is disabled. Set ALLOW_SHELL_COMMANDS=true environment variable to enable shell commands.";
-        }
-
-        try {
-          const shellCommand = normalizedCommand.substring(1).trim();
-          // Execute the command and capture output directly
-          const output = await nvim.eval(
-            `system('${shellCommand.replace(/'/g, "''")}')`,
-          );
-          if (output) {
-            return String(output).trim();
-          }
-          return "No output from command";
-        } catch (error) {
-          console.error("Shell command error:", error);
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error occurred";
-          return `Error executing shell command: ${errorMessage}`;
-        }
+        return await this.runCommand(normalizedCommand.substring(1).trim());
       }
 
+      const nvim = await this.connect();
+      await this.assertCommandPaths(nvim, normalizedCommand);
+      await this.assertShellCommands(nvim, normalizedCommand);
+
       // For regular Vim commands
       await nvim.setVvar("errmsg", "");
 
       // Execute the command and capture its output using the execute() function
       const output = await nvim.call("execute", [normalizedCommand]);
 
-      // Check for errors
+      // Errors that do not abort the command, e.g. under silent!, are only
+      // left in v:errmsg
       const vimerr = await nvim.getVvar("errmsg");
       if (vimerr) {
-        console.error("Vim error:", vimerr);
-        return `Error executing command: ${vimerr}`;
+        throw new VimError(String(vimerr));
       }
 
       // Return the actual command output if any
       return output ? String(output).trim() : "Command executed (no output)";
     } catch (error) {
-      console.error("Error sending command:", error);
-      return "Error executing command";
+      throw vimError(error);
+    }
+  }
+
+  /**
+   * With a workspace root, checks the files an Ex command line writes, opens
+   * or changes directory to. Writes without a file name are checked against
+   * the buffers they write.
+   */
+  private async assertCommandPaths(
+    nvim: NeovimClient,
+    command: string,
+  ): Promise<void> {
+    if (!hasWorkspaceRoot()) {
+      return;
+    }
+    const files: [string, boolean][] = [];
+    for (const parsed of parseExCommands(command)) {
+      const target = commandTarget(parsed);
+      if (target && "denial" in target) {
+        assertPolicy(target.denial);
+      } else if (target) {
+        files.push([
+          target.file.replace(/\\(.)/g, "$1"),
+          target.directory ?? false,
+        ]);
+      }
+    }
+    if (files.length === 0) {
+      return;
+    }
+
+    // Resolved in order, following the directory changes of the line.
+    const paths = (await nvim.lua(
+      `
+      local cwd = vim.fn.getcwd()
+      local paths = {}
+      for _, target in ipairs(...) do
+        local file, directory = target[1], target[2]
+        if file == "*" then
+          for _, info in ipairs(vim.fn.getbufinfo({ bufmodified = 1 })) do
+            if info.name ~= "" then
+              table.insert(paths, info.name)
+            end
+          end
+        elseif file == "%" then
+          local name = vim.api.nvim_buf_get_name(0)
+          if name ~= "" then
+            table.insert(paths, name)
+          end
+        else
+          local path = vim.fn.expand(file)
+          if path:sub(1, 1) ~= "/" then
+            path = cwd .. "/" .. path
+          end
+          table.insert(paths, path)
+          if directory then
+            cwd = path
+          end
+        end
+      end
+      return paths
+      `,
+      [files],
+    )) as string[];
+    for (const path of paths) {
+      assertPolicy(pathDenial(path));
+    }
+  }
+
+  /**
+   * Checks the shell commands an Ex command line runs, e.g. `:%!sort`,
+   * `:r !ls` or `:exe "!make"`, like `!` commands: each needs
+   * ALLOW_SHELL_COMMANDS and must pass the allow/denylist. Commands whose
+   * program cannot be checked, such as `:make` or `system()` calls, are
+   * rejected while an allow or denylist is set.
+   */
+  private async assertShellCommands(
+    nvim: NeovimClient,
+    command: string,
+  ): Promise<void> {
+    for (const parsed of parseExCommands(command)) {
+      const run = shellRun(parsed);
+      if (!run) {
+        continue;
+      }
+      assertShellAllowed();
+      if ("reason" in run) {
+        if (hasCommandLists()) {
+          throw new ShellCommandError(
+            `Command rejected: ${run.reason} against NVIM_SHELL_ALLOW and NVIM_SHELL_DENY`,
+          );
+        }
+      } else {
+        await prepareCommand(
+          nvim,
+          run.command ?? String(await nvim.getOption("shell")),
+        );
+      }
     }
   }
 
-  public async getNeovimStatus(): Promise<NeovimStatus | string> {
+  /**
+   * Runs a command with system() given an argument list, so no shell
+   * interprets it, in nvim's working directory. Returns its output, with the
+   * exit code appended when it failed.
+   */
+  public async runCommand(command: string | string[]): Promise<string> {
+    assertShellAllowed();
+    const nvim = await this.connect();
+    const argv = await prepareCommand(nvim, command);
+    const [output, exitCode] = (await nvim.lua(
+      `
+      local output = vim.fn.system(...)
+      return { output, vim.v.shell_error }
+      `,
+      [argv],
+    )) as [string, number];
+    const text = output.trim() || "No output from command";
+    return exitCode === 0 ? text : `${text}\n[Exit code ${exitCode}]`;
+  }
+
+  public async getNeovimStatus(): Promise<NeovimStatus> {
     try {
       const nvim = await this.connect();
       const window = await nvim.window;
@@ -209,41 +1486,1478 @@ export class NeovimManager {
 
       return neovimStatus;
     } catch (error) {
-      console.error("Error getting Neovim status:", error);
-      return "Error getting Neovim status";
+      throw vimError(error);
     }
   }
 
+  /**
+   * Edits lines of a buffer. `replace` overwrites startLine..endLine
+   * (inclusive) with the new text, or as many lines as the new text has when
+   * no endLine is given. `delete` removes startLine..endLine, defaulting to
+   * the single startLine. With `expectedTick` the edit is only written if
+   * the buffer's changedtick still matches it.
+   */
   public async editLines(
     startLine: number,
-    mode: "replace" | "insert" | "replaceAll",
+    mode: "replace" | "insert" | "replaceAll" | "delete",
     newText: string,
+    endLine?: number,
+    target?: BufferTarget,
+    expectedTick?: number,
   ): Promise<string> {
     try {
       const nvim = await this.connect();
       const splitByLines = newText.split("\n");
-      const buffer = await nvim.buffer;
+      const buffer = await this.resolveWritableBuffer(nvim, target);
+      const lineCount = await buffer.length;
+
+      if (mode !== "replaceAll") {
+        // Inserting right after the last line is allowed.
+        const maxStart = mode === "insert" ? lineCount + 1 : lineCount;
+        if (startLine < 1 || startLine > maxStart) {
+          throw new InvalidRangeError(
+            `startLine ${startLine} is outside the buffer (1-${maxStart})`,
+          );
+        }
+        if (
+          endLine !== undefined &&
+          (endLine < startLine || endLine > lineCount)
+        ) {
+          throw new InvalidRangeError(
+            `endLine ${endLine} must be between startLine ${startLine} and the last line ${lineCount}`,
+          );
+        }
+      }
 
+      // The lines replaced (0-indexed, end exclusive), the new lines and the
+      // result message of each mode.
+      let start: number;
+      let end: number;
+      let lines = splitByLines;
+      let message: string;
       if (mode === "replaceAll") {
-        // Handle full buffer replacement
-        const lineCount = await buffer.length;
-        // Delete all lines and then append new content
-        await buffer.remove(0, lineCount, true);
-        await buffer.insert(splitByLines, 0);
-        return "Buffer completely replaced";
+        [start, end] = [0, lineCount];
+        message = "Buffer completely replaced";
+      } else if (mode === "replace" && endLine !== undefined) {
+        [start, end] = [startLine - 1, endLine];
+        message = `Lines ${startLine}-${endLine} replaced successfully`;
       } else if (mode === "replace") {
-        await buffer.replace(splitByLines, startLine - 1);
-        return "Lines replaced successfully";
+        // Text running past the last line is appended.
+        [start, end] = [
+          startLine - 1,
+          Math.min(startLine - 1 + splitByLines.length, lineCount),
+        ];
+        message = "Lines replaced successfully";
+      } else if (mode === "delete") {
+        [start, end] = [startLine - 1, endLine ?? startLine];
+        lines = [];
+        message = `Lines ${startLine}-${end} deleted successfully`;
       } else if (mode === "insert") {
-        await buffer.insert(splitByLines, startLine - 1);
-        return "Lines inserted successfully";
+        [start, end] = [startLine - 1, startLine - 1];
+        message = "Lines inserted successfully";
+      } else {
+        throw new InvalidArgumentError(`Invalid mode ${mode}`);
+      }
+
+      await this.setLinesChecked(
+        nvim,
+        buffer,
+        start,
+        end,
+        lines,
+        expectedTick,
+        [start + 1, Math.max(end, start + 1)],
+      );
+      return message;
+    } catch (error) {
+      throw vimError(error);
+    }
+  }
+
+  /**
+   * Replaces one occurrence of `oldText` with `newText` in a single
+   * nvim_buf_set_text call, so the change is one undo step. The match must be
+   * unique unless `occurrence` (1-indexed) picks one. Returns the affected
+   * line range after the edit.
+   */
+  public async replaceText(
+    oldText: string,
+    newText: string,
+    occurrence?: number,
+    target?: BufferTarget,
+  ): Promise<{ startLine: number; endLine: number; matches: number }> {
+    if (oldText.length === 0) {
+      throw new TextMatchError("oldText must not be empty");
+    }
+
+    try {
+      const nvim = await this.connect();
+      const buffer = await this.resolveWritableBuffer(nvim, target);
+      const lines = await buffer.lines;
+      const text = lines.join("\n");
+
+      const offsets: number[] = [];
+      for (
+        let index = text.indexOf(oldText);
+        index !== -1;
+        index = text.indexOf(oldText, index + oldText.length)
+      ) {
+        offsets.push(index);
+      }
+
+      // Converts a string offset into a 0-indexed row and UTF-8 byte column.
+      const toPosition = (offset: number): [number, number] => {
+        const before = text.slice(0, offset).split("\n");
+        const row = before.length - 1;
+        return [row, Buffer.byteLength(before[row], "utf8")];
+      };
+
+      if (offsets.length === 0) {
+        throw new TextMatchError("oldText was not found in the buffer");
+      }
+      if (occurrence === undefined && offsets.length > 1) {
+        const matchLines = offsets.map((offset) => toPosition(offset)[0] + 1);
+        throw new TextMatchError(
+          `oldText matches ${offsets.length} times (at lines ${matchLines.join(", ")}); pass occurrence to choose one or include more context`,
+        );
+      }
+      const index = occurrence ?? 1;
+      if (index < 1 || index > offsets.length) {
+        throw new TextMatchError(
+          `occurrence ${index} is out of range; oldText matches ${offsets.length} time(s)`,
+        );
+      }
+
+      const start = offsets[index - 1];
+      const [startRow, startCol] = toPosition(start);
+      const [endRow, endCol] = toPosition(start + oldText.length);
+      const replacement = newText.split("\n");
+      await buffer.request("nvim_buf_set_text", [
+        buffer,
+        startRow,
+        startCol,
+        endRow,
+        endCol,
+        replacement,
+      ]);
+
+      return {
+        startLine: startRow + 1,
+        endLine: startRow + replacement.length,
+        matches: offsets.length,
+      };
+    } catch (error) {
+      throw vimError(error);
+    }
+  }
+
+  /**
+   * Replaces the buffer's `original` lines with `lines`, rewriting only the
+   * region between the first and last changed line in one
+   * nvim_buf_set_lines call, which is a single undo step. With
+   * `expectedTick` nothing is written unless the changedtick still matches.
+   */
+  private async writeChangedLines(
+    nvim: NeovimClient,
+    buffer: NeovimBuffer,
+    original: string[],
+    lines: string[],
+    expectedTick?: number,
+  ): Promise<void> {
+    let start = 0;
+    while (
+      start < original.length &&
+      start < lines.length &&
+      original[start] === lines[start]
+    ) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < original.length - start &&
+      end < lines.length - start &&
+      original[original.length - 1 - end] === lines[lines.length - 1 - end]
+    ) {
+      end++;
+    }
+    if (start === original.length - end && start === lines.length - end) {
+      return;
+    }
+    await this.setLinesChecked(
+      nvim,
+      buffer,
+      start,
+      // An empty `original` stands for the single empty line of a new buffer.
+      original.length === 0 ? -1 : original.length - end,
+      lines.slice(start, lines.length - end),
+      expectedTick,
+      [start + 1, Math.max(start + 1, original.length - end)],
+    );
+  }
+
+  /**
+   * Applies several edits addressed by the buffer's current line numbers as
+   * one transaction. Every operation is validated before anything is
+   * written; if one is out of range or overlaps another, or the changedtick
+   * no longer matches `expectedTick`, the buffer is left untouched. The
+   * result is written as a single undo step.
+   */
+  public async editBatch(
+    operations: EditOperation[],
+    target?: BufferTarget,
+    expectedTick?: number,
+  ): Promise<string> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveWritableBuffer(nvim, target);
+    const original = await buffer.lines;
+
+    // Replaced or deleted ranges, keyed by their first line.
+    const ranges = new Map<number, { endLine: number; lines: string[] }>();
+    // Insertions before a given line, in the order they were requested.
+    const inserts = new Map<number, string[]>();
+
+    operations.forEach((operation, index) => {
+      const label = `Operation ${index + 1} (${operation.mode})`;
+      const { startLine } = operation;
+      const newLines = (operation.lines ?? "").split("\n");
+
+      if (operation.mode === "insert") {
+        if (startLine < 1 || startLine > original.length + 1) {
+          throw new InvalidRangeError(
+            `${label}: startLine ${startLine} is outside the buffer (1-${original.length + 1})`,
+          );
+        }
+        inserts.set(startLine, [
+          ...(inserts.get(startLine) ?? []),
+          ...newLines,
+        ]);
+        return;
+      }
+
+      const endLine =
+        operation.endLine ??
+        (operation.mode === "replace"
+          ? startLine + newLines.length - 1
+          : startLine);
+      if (startLine < 1 || endLine < startLine || endLine > original.length) {
+        throw new InvalidRangeError(
+          `${label}: lines ${startLine}-${endLine} are outside the buffer (1-${original.length})`,
+        );
       }
+      const previous = ranges.get(startLine);
+      if (previous) {
+        throw new InvalidRangeError(
+          `${label}: lines ${startLine}-${endLine} overlap lines ${startLine}-${previous.endLine}`,
+        );
+      }
+      ranges.set(startLine, {
+        endLine,
+        lines: operation.mode === "replace" ? newLines : [],
+      });
+    });
+
+    // Ranges may not overlap each other or swallow an insertion point.
+    const sorted = Array.from(ranges.entries()).sort(([a], [b]) => a - b);
+    sorted.forEach(([startLine, { endLine }], index) => {
+      const next = sorted[index + 1];
+      if (next && next[0] <= endLine) {
+        throw new InvalidRangeError(
+          `Lines ${startLine}-${endLine} overlap lines ${next[0]}-${next[1].endLine}`,
+        );
+      }
+      for (const insertLine of inserts.keys()) {
+        if (insertLine > startLine && insertLine <= endLine) {
+          throw new InvalidRangeError(
+            `Insertion at line ${insertLine} falls inside lines ${startLine}-${endLine}`,
+          );
+        }
+      }
+    });
 
-      return "Invalid mode specified";
+    const lines: string[] = [];
+    for (let line = 1; line <= original.length + 1; line++) {
+      lines.push(...(inserts.get(line) ?? []));
+      const range = ranges.get(line);
+      if (range) {
+        lines.push(...range.lines);
+        line = range.endLine;
+      } else if (line <= original.length) {
+        lines.push(original[line - 1]);
+      }
+    }
+
+    await this.writeChangedLines(nvim, buffer, original, lines, expectedTick);
+    return `Applied ${operations.length} operation(s); buffer now has ${lines.length} lines`;
+  }
+
+  /**
+   * Applies a unified diff to the buffers of the files it names, loading
+   * files that are not open yet. All hunks of a file are written with one
+   * nvim_buf_set_lines call so a single undo reverts them. Hunks that do not
+   * apply are reported and skipped.
+   */
+  public async applyPatch(patch: string): Promise<FilePatchResult[]> {
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(patch);
     } catch (error) {
-      console.error("Error editing lines:", error);
-      return "Error editing lines";
+      throw new InvalidArgumentError(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    if (filePatches.length === 0) {
+      throw new InvalidArgumentError(
+        "No file headers (---/+++) found in patch",
+      );
     }
+
+    const nvim = await this.connect();
+    const results: FilePatchResult[] = [];
+    for (const filePatch of filePatches) {
+      const file = filePatch.newPath ?? filePatch.oldPath ?? "";
+      if (filePatch.newPath === null) {
+        results.push({
+          file,
+          hunks: filePatch.hunks.map((hunk) => ({
+            hunk: hunk.header,
+            applied: false,
+            error: "deleting files is not supported",
+          })),
+        });
+        continue;
+      }
+
+      try {
+        const buffer = await this.resolveBuffer(nvim, filePatch.newPath);
+        let original = await buffer.lines;
+        // A new or empty buffer still has one empty line.
+        if (original.length === 1 && original[0] === "") {
+          original = [];
+        }
+        const { lines, results: hunks } = applyHunks(original, filePatch.hunks);
+
+        await this.writeChangedLines(nvim, buffer, original, lines);
+        results.push({ file, bufferId: buffer.id, hunks });
+      } catch (error) {
+        if (error instanceof NeovimConnectionError) {
+          throw error;
+        }
+        console.error(`Error applying patch to ${file}:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        results.push({
+          file,
+          hunks: filePatch.hunks.map((hunk) => ({
+            hunk: hunk.header,
+            applied: false,
+            error: message,
+          })),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Formats a buffer with the formatter configured for its filetype (see
+   * NVIM_FORMATTERS). The formatter runs in the context of the buffer via
+   * nvim_buf_call, so the current window is not changed. editStart..editEnd
+   * (1-indexed) is the range just edited, used to report whether the
+   * formatter changed anything else.
+   */
+  public async formatBuffer(
+    editStart: number,
+    editEnd: number,
+    target?: BufferTarget,
+  ): Promise<FormatResult> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const filetype = String(await buffer.getOption("filetype"));
+    const formatter = formatterFor(filetype);
+    if (formatter.kind === "none") {
+      return { status: "skipped" };
+    }
+    const name = formatter.kind === "lsp" ? "lsp" : formatter.command;
+
+    const before = await buffer.lines;
+    const error = await nvim.lua(
+      `
+      local bufnr, kind, command = ...
+      local ok, err = pcall(vim.api.nvim_buf_call, bufnr, function()
+        if kind == "lsp" then
+          vim.lsp.buf.format({ bufnr = bufnr, async = false })
+        else
+          vim.cmd(command)
+        end
+      end)
+      if not ok then
+        return tostring(err)
+      end
+      return nil
+      `,
+      [buffer.id, formatter.kind, name],
+    );
+    if (error) {
+      console.error("Error formatting buffer:", error);
+      return { status: "failed", formatter: name, error: String(error) };
+    }
+
+    const after = await buffer.lines;
+    let prefix = 0;
+    while (
+      prefix < before.length &&
+      prefix < after.length &&
+      before[prefix] === after[prefix]
+    ) {
+      prefix++;
+    }
+    if (prefix === before.length && prefix === after.length) {
+      return { status: "unchanged", formatter: name };
+    }
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix &&
+      suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    return {
+      status: "formatted",
+      formatter: name,
+      changedLines: [prefix + 1, Math.max(prefix + 1, after.length - suffix)],
+      changedOutsideEdit:
+        prefix + 1 < editStart || before.length - suffix > editEnd,
+    };
+  }
+
+  /**
+   * Returns the diagnostics nvim knows about (from LSP clients, linters,
+   * ...) via vim.diagnostic.get(), for one buffer or, with `workspace`, for
+   * all buffers. Results are sorted by file and position.
+   */
+  public async getDiagnostics(
+    target?: BufferTarget,
+    workspace = false,
+  ): Promise<Diagnostic[]> {
+    const nvim = await this.connect();
+    // -1 stands for "all buffers", which vim.diagnostic.get() spells nil.
+    const bufferId = workspace
+      ? -1
+      : (await this.resolveBuffer(nvim, target)).id;
+    const diagnostics = (await nvim.lua(
+      `
+      local bufnr = ...
+      if bufnr == -1 then
+        bufnr = nil
+      end
+      local severities = { "error", "warning", "info", "hint" }
+      local result = {}
+      for _, d in ipairs(vim.diagnostic.get(bufnr)) do
+        table.insert(result, {
+          bufferId = d.bufnr,
+          file = vim.api.nvim_buf_get_name(d.bufnr),
+          severity = severities[d.severity],
+          startLine = d.lnum + 1,
+          startColumn = d.col,
+          endLine = (d.end_lnum or d.lnum) + 1,
+          endColumn = d.end_col or d.col,
+          message = d.message,
+          source = d.source,
+          code = d.code,
+        })
+      end
+      return result
+      `,
+      [bufferId],
+    )) as Diagnostic[];
+
+    return diagnostics.sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.startLine - b.startLine ||
+        a.startColumn - b.startColumn,
+    );
+  }
+
+  /**
+   * Sends an LSP request to the clients attached to a buffer through
+   * vim.lsp.buf_request_sync and returns the non-empty results along with
+   * the id of the client that sent each. With
+   * `withDocument`, the buffer is added to the params as textDocument.
+   */
+  private async lspRequest(
+    nvim: NeovimClient,
+    bufferId: number,
+    method: string,
+    params: { [key: string]: unknown },
+    withDocument = true,
+  ): Promise<{
+    uri: string;
+    results: { clientId: number; result: unknown }[];
+  }> {
+    const response = (await nvim.lua(
+      `
+      local bufnr, method, params, with_document, timeout = ...
+      local get_clients = vim.lsp.get_clients or vim.lsp.get_active_clients
+      if #get_clients({ bufnr = bufnr }) == 0 then
+        return { error = "no_client" }
+      end
+      local uri = vim.uri_from_bufnr(bufnr)
+      if with_document then
+        params.textDocument = { uri = uri }
+      end
+      local responses, err = vim.lsp.buf_request_sync(bufnr, method, params, timeout)
+      if not responses then
+        return { error = tostring(err or "timeout") }
+      end
+      local results, errors = {}, {}
+      for client_id, response in pairs(responses) do
+        if response.err then
+          table.insert(errors, response.err.message or vim.inspect(response.err))
+        elseif response.result ~= nil and response.result ~= vim.NIL then
+          table.insert(results, { clientId = client_id, result = response.result })
+        end
+      end
+      return { uri = uri, results = results, errors = errors }
+      `,
+      [bufferId, method, params, withDocument, LSP_TIMEOUT_MS],
+    )) as {
+      uri?: string;
+      results?: { clientId: number; result: unknown }[];
+      errors?: string[];
+      error?: string;
+    };
+
+    if (response.error === "no_client") {
+      throw new LspError(
+        `No language server is attached to buffer ${bufferId}`,
+      );
+    }
+    if (response.error) {
+      throw new LspError(`${method} failed: ${response.error}`);
+    }
+    const results = Array.isArray(response.results) ? response.results : [];
+    const errors = Array.isArray(response.errors) ? response.errors : [];
+    if (results.length === 0 && errors.length > 0) {
+      throw new LspError(`${method} failed: ${errors.join("; ")}`);
+    }
+    return { uri: response.uri ?? "", results };
+  }
+
+  /**
+   * Fills in the text of each location from its buffer if loaded, or from
+   * disk otherwise, without creating buffers for unopened files.
+   */
+  private async addSnippets(
+    nvim: NeovimClient,
+    locations: Location[],
+  ): Promise<Location[]> {
+    if (locations.length === 0) {
+      return locations;
+    }
+    const snippets = (await nvim.lua(
+      `
+      local locations = ...
+      local loaded = {}
+      for _, bufnr in ipairs(vim.api.nvim_list_bufs()) do
+        if vim.api.nvim_buf_is_loaded(bufnr) then
+          loaded[vim.api.nvim_buf_get_name(bufnr)] = bufnr
+        end
+      end
+      local snippets = {}
+      for i, loc in ipairs(locations) do
+        local bufnr = loaded[loc.file]
+        local lines = {}
+        if bufnr then
+          lines = vim.api.nvim_buf_get_lines(bufnr, loc.startLine - 1, loc.endLine, false)
+        else
+          local ok, file_lines = pcall(vim.fn.readfile, loc.file, "", loc.endLine)
+          if ok then
+            lines = vim.list_slice(file_lines, loc.startLine, loc.endLine)
+          end
+        end
+        snippets[i] = table.concat(lines, "\n")
+      end
+      return snippets
+      `,
+      [
+        locations.map((location) => ({
+          file: location.file,
+          startLine: location.startLine,
+          endLine: Math.min(
+            location.endLine,
+            location.startLine + MAX_SNIPPET_LINES - 1,
+          ),
+        })),
+      ],
+    )) as string[];
+
+    return locations.map((location, index) => ({
+      ...location,
+      snippet: snippets[index],
+    }));
+  }
+
+  /**
+   * Finds the definition of, or the references to, the symbol at a position
+   * (1-indexed line, 0-indexed character column) using textDocument/definition
+   * or textDocument/references.
+   */
+  public async lspLocations(
+    kind: "definition" | "references",
+    line: number,
+    column: number,
+    target?: BufferTarget,
+  ): Promise<Location[]> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const { results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      `textDocument/${kind}`,
+      {
+        position: { line: line - 1, character: column },
+        ...(kind === "references"
+          ? { context: { includeDeclaration: true } }
+          : {}),
+      },
+    );
+    return this.addSnippets(
+      nvim,
+      results.flatMap(({ result }) => toLocations(result)),
+    );
+  }
+
+  public async lspHover(
+    line: number,
+    column: number,
+    target?: BufferTarget,
+  ): Promise<HoverInfo[]> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const { uri, results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      "textDocument/hover",
+      { position: { line: line - 1, character: column } },
+    );
+    return results
+      .map(({ result }) => toHover(result, uri))
+      .filter((hover): hover is HoverInfo => hover !== null);
+  }
+
+  public async lspDocumentSymbols(
+    target?: BufferTarget,
+  ): Promise<SymbolInfo[]> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const { uri, results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      "textDocument/documentSymbol",
+      {},
+    );
+    return results.flatMap(({ result }) => toSymbols(result, uri));
+  }
+
+  /**
+   * Sends a request to a single LSP client, e.g. to resolve a code action
+   * or execute a command.
+   */
+  private async lspClientRequest(
+    nvim: NeovimClient,
+    clientId: number,
+    bufferId: number,
+    method: string,
+    params: { [key: string]: unknown },
+  ): Promise<unknown> {
+    const response = (await nvim.lua(
+      `
+      local client_id, bufnr, method, params, timeout = ...
+      local client = vim.lsp.get_client_by_id(client_id)
+      if not client then
+        return { error = "language server is no longer running" }
+      end
+      local response
+      if vim.fn.has("nvim-0.11") == 1 then
+        response = client:request_sync(method, params, timeout, bufnr)
+      else
+        response = client.request_sync(method, params, timeout, bufnr)
+      end
+      if not response then
+        return { error = "timeout" }
+      end
+      if response.err then
+        return { error = response.err.message or vim.inspect(response.err) }
+      end
+      return { result = response.result }
+      `,
+      [clientId, bufferId, method, params, LSP_TIMEOUT_MS],
+    )) as { result?: unknown; error?: string };
+
+    if (response.error) {
+      throw new LspError(`${method} failed: ${response.error}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * Renders a WorkspaceEdit as per-file diffs against the current contents
+   * of each file (its buffer if loaded, otherwise the file on disk) and
+   * applies it with vim.lsp.util.apply_workspace_edit if `apply` is set, so
+   * the changes land in buffers and can be undone.
+   */
+  private async workspaceEdit(
+    nvim: NeovimClient,
+    edit: WorkspaceEdit,
+    clientId: number,
+    apply: boolean,
+  ): Promise<WorkspaceEditPreview> {
+    const { files, operations, paths } = workspaceEditFiles(edit);
+    // The edit is previewed with the encoding it is applied with.
+    const [encoding, contents] = (await nvim.lua(
+      `
+      local files, client_id = ...
+      local client = vim.lsp.get_client_by_id(client_id)
+      local loaded = {}
+      for _, bufnr in ipairs(vim.api.nvim_list_bufs()) do
+        if vim.api.nvim_buf_is_loaded(bufnr) then
+          loaded[vim.api.nvim_buf_get_name(bufnr)] = bufnr
+        end
+      end
+      local contents = {}
+      for i, file in ipairs(files) do
+        if loaded[file] then
+          contents[i] = vim.api.nvim_buf_get_lines(loaded[file], 0, -1, false)
+        else
+          local ok, lines = pcall(vim.fn.readfile, file)
+          contents[i] = ok and lines or {}
+        end
+      end
+      return { client and client.offset_encoding or "utf-16", contents }
+      `,
+      [files.map(({ file }) => file), clientId],
+    )) as [OffsetEncoding, string[][]];
+
+    const preview = files.map(({ file, edits }, index) => ({
+      file,
+      diff: unifiedDiff(
+        contents[index],
+        applyTextEdits(contents[index], edits, encoding),
+        {
+          oldName: file,
+          newName: file,
+          numbered: true,
+        },
+      ),
+    }));
+
+    if (apply) {
+      // Created, renamed and deleted files must stay inside the root too.
+      for (const path of paths) {
+        assertPolicy(pathDenial(path));
+      }
+      await nvim.lua(
+        `
+        local edit, client_id = ...
+        local client = vim.lsp.get_client_by_id(client_id)
+        vim.lsp.util.apply_workspace_edit(edit, client and client.offset_encoding or "utf-16")
+        `,
+        [edit as { [key: string]: unknown }, clientId],
+      );
+    }
+    return { files: preview, operations, applied: apply };
+  }
+
+  /**
+   * Asks the language server to rename the symbol at a position and returns
+   * the resulting edit as per-file diffs. The edit is only applied when
+   * `apply` is set; all touched files are loaded into buffers and stay
+   * unsaved so the rename can be reviewed and undone.
+   */
+  public async lspRename(
+    newName: string,
+    line: number,
+    column: number,
+    apply: boolean,
+    target?: BufferTarget,
+  ): Promise<WorkspaceEditPreview> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const { results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      "textDocument/rename",
+      { position: { line: line - 1, character: column }, newName },
+    );
+    // Other attached servers, e.g. linters, may answer with an empty edit.
+    const answer = results.find(({ result }) => {
+      const { files, operations } = workspaceEditFiles(result as WorkspaceEdit);
+      return files.length > 0 || operations.length > 0;
+    });
+    if (!answer) {
+      throw new LspError("The language server returned no edits for rename");
+    }
+    return this.workspaceEdit(
+      nvim,
+      answer.result as WorkspaceEdit,
+      answer.clientId,
+      apply,
+    );
+  }
+
+  /**
+   * Lists the code actions available for a range (1-indexed lines, 0-indexed
+   * columns), or previews the action with the given 1-based index and, with
+   * `apply`, applies its edit and runs its command.
+   */
+  public async lspCodeActions(
+    range: {
+      startLine: number;
+      startColumn: number;
+      endLine: number;
+      endColumn: number;
+    },
+    actionIndex: number | undefined,
+    apply: boolean,
+    target?: BufferTarget,
+  ): Promise<
+    | CodeActionInfo[]
+    | (WorkspaceEditPreview & { title: string; command?: string })
+  > {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    // Diagnostics on the range are passed along so servers offer quick fixes.
+    const diagnostics = await nvim.lua(
+      `
+      local bufnr, first, last = ...
+      local result = {}
+      for _, d in ipairs(vim.diagnostic.get(bufnr)) do
+        if d.lnum >= first and d.lnum <= last and d.user_data and d.user_data.lsp then
+          table.insert(result, d.user_data.lsp)
+        end
+      end
+      return result
+      `,
+      [buffer.id, range.startLine - 1, range.endLine - 1],
+    );
+    const { results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      "textDocument/codeAction",
+      {
+        range: {
+          start: { line: range.startLine - 1, character: range.startColumn },
+          end: { line: range.endLine - 1, character: range.endColumn },
+        },
+        context: { diagnostics },
+      },
+    );
+    const actions = results.flatMap(({ clientId, result }) =>
+      (Array.isArray(result) ? (result as LspCodeAction[]) : []).map(
+        (action) => ({ clientId, action }),
+      ),
+    );
+    const commandName = (action: LspCodeAction) =>
+      typeof action.command === "string"
+        ? action.command
+        : action.command?.command;
+
+    if (actionIndex === undefined) {
+      return actions.map(({ action }, index) => ({
+        index: index + 1,
+        title: action.title,
+        kind: action.kind,
+        isPreferred: action.isPreferred,
+        hasEdit: action.edit !== undefined,
+        command: commandName(action),
+      }));
+    }
+
+    const chosen = actions[actionIndex - 1];
+    if (!chosen) {
+      throw new LspError(
+        `Code action ${actionIndex} does not exist; ${actions.length} action(s) are available`,
+      );
+    }
+    const { clientId } = chosen;
+    let { action } = chosen;
+    if (!action.edit && typeof action.command !== "string") {
+      // Servers may leave the edit out until the action is resolved.
+      try {
+        action = (await this.lspClientRequest(
+          nvim,
+          clientId,
+          buffer.id,
+          "codeAction/resolve",
+          action,
+        )) as LspCodeAction;
+      } catch (error) {
+        console.error("Error resolving code action:", error);
+      }
+    }
+
+    const preview = action.edit
+      ? await this.workspaceEdit(nvim, action.edit, clientId, apply)
+      : { files: [], operations: [], applied: apply };
+    const command: LspCommand | undefined =
+      typeof action.command === "string"
+        ? {
+            title: action.title,
+            command: action.command,
+            arguments: action.arguments,
+          }
+        : action.command;
+    if (apply && command) {
+      await this.lspClientRequest(
+        nvim,
+        clientId,
+        buffer.id,
+        "workspace/executeCommand",
+        { command: command.command, arguments: command.arguments },
+      );
+    }
+    return { title: action.title, command: command?.command, ...preview };
+  }
+
+  /**
+   * Searches symbols across the project with workspace/symbol, asking the
+   * language servers attached to the given (default: current) buffer.
+   */
+  public async lspWorkspaceSymbols(
+    query: string,
+    target?: BufferTarget,
+  ): Promise<SymbolInfo[]> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const { results } = await this.lspRequest(
+      nvim,
+      buffer.id,
+      "workspace/symbol",
+      { query },
+      false,
+    );
+    return results.flatMap(({ result }) => toSymbols(result));
+  }
+
+  /**
+   * Returns the functions, classes, methods, ... of a buffer with their line
+   * ranges, using the buffer's treesitter parser.
+   */
+  public async treesitterOutline(
+    target?: BufferTarget,
+  ): Promise<OutlineSymbol[]> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const result = (await nvim.lua(TREESITTER_OUTLINE_LUA, [buffer.id])) as {
+      symbols?: OutlineSymbol[];
+      error?: string;
+      filetype?: string;
+    };
+    if (result.error) {
+      throw new TreesitterError(
+        `No treesitter parser available for buffer ${buffer.id} (filetype "${result.filetype}")`,
+      );
+    }
+    return Array.isArray(result.symbols) ? result.symbols : [];
+  }
+
+  /**
+   * Replaces the text of the symbol named `symbol` (a dotted path such as
+   * `MyClass.myMethod`, or just its last part) with `newText`. The symbol is
+   * looked up in the treesitter outline in the same call that edits the
+   * buffer, so its range is never stale. `kind` narrows the match to a kind
+   * (e.g. "method") or node type (e.g. "function_declaration").
+   */
+  public async replaceNode(
+    symbol: string,
+    newText: string,
+    kind?: string,
+    target?: BufferTarget,
+  ): Promise<{ name: string; startLine: number; endLine: number }> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveWritableBuffer(nvim, target);
+    const result = (await nvim.lua(
+      `
+      local bufnr, outline_source, wanted, kind, replacement = ...
+      local outline = assert(loadstring(outline_source))(bufnr)
+      if outline.error then
+        return outline
+      end
+      local exact, partial = {}, {}
+      for _, symbol in ipairs(outline.symbols) do
+        if kind == "" or symbol.kind == kind or symbol.type == kind then
+          if symbol.name == wanted then
+            table.insert(exact, symbol)
+          elseif vim.endswith(symbol.name, "." .. wanted) then
+            table.insert(partial, symbol)
+          end
+        end
+      end
+      local matches = #exact > 0 and exact or partial
+      if #matches ~= 1 then
+        return { matches = matches }
+      end
+      local node = matches[1]
+      vim.api.nvim_buf_set_text(bufnr, node.startLine - 1, node.startColumn,
+        node.endLine - 1, node.endColumn, replacement)
+      return { symbol = node }
+      `,
+      [
+        buffer.id,
+        TREESITTER_OUTLINE_LUA,
+        symbol,
+        kind ?? "",
+        newText.split("\n"),
+      ],
+    )) as {
+      symbol?: OutlineSymbol;
+      matches?: OutlineSymbol[];
+      error?: string;
+      filetype?: string;
+    };
+
+    if (result.error) {
+      throw new TreesitterError(
+        `No treesitter parser available for buffer ${buffer.id} (filetype "${result.filetype}")`,
+      );
+    }
+    if (!result.symbol) {
+      const matches = Array.isArray(result.matches) ? result.matches : [];
+      throw new TreesitterError(
+        matches.length === 0
+          ? `No ${kind ?? "symbol"} named ${symbol} in buffer ${buffer.id}; use vim_treesitter_outline to list them`
+          : `${symbol} is ambiguous, it matches ${matches
+              .map(
+                (match) =>
+                  `${match.name} (${match.kind}, line ${match.startLine})`,
+              )
+              .join(", ")}; pass the full dotted name or a kind`,
+      );
+    }
+    return {
+      name: result.symbol.name,
+      startLine: result.symbol.startLine,
+      endLine: result.symbol.startLine + newText.split("\n").length - 1,
+    };
+  }
+
+  /**
+   * Returns the smallest named node at a position (1-indexed line, 0-indexed
+   * byte column), or its nearest ancestor whose type contains `type`, e.g.
+   * "function" for the enclosing function.
+   */
+  public async treesitterNodeAt(
+    line: number,
+    column: number,
+    type?: string,
+    target?: BufferTarget,
+  ): Promise<TreesitterNode> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const result = (await nvim.lua(
+      `
+      local bufnr, row, col, wanted = ...
+      local ok, parser = pcall(vim.treesitter.get_parser, bufnr)
+      if not ok or not parser then
+        return { error = "No treesitter parser available for buffer " .. bufnr }
+      end
+      parser:parse()
+      local node = vim.treesitter.get_node({ bufnr = bufnr, pos = { row, col } })
+      if wanted ~= "" then
+        while node and not node:type():find(wanted, 1, true) do
+          node = node:parent()
+        end
+      end
+      if not node then
+        return { error = "No node of type " .. wanted .. " encloses the position" }
+      end
+      local ancestors = {}
+      local parent = node:parent()
+      while parent do
+        table.insert(ancestors, parent:type())
+        parent = parent:parent()
+      end
+      local start_row, start_col, end_row, end_col = node:range()
+      return {
+        type = node:type(),
+        startLine = start_row + 1,
+        startColumn = start_col,
+        endLine = end_row + 1,
+        endColumn = end_col,
+        text = vim.treesitter.get_node_text(node, bufnr),
+        ancestors = ancestors,
+      }
+      `,
+      [buffer.id, line - 1, column, type ?? ""],
+    )) as TreesitterNode & { error?: string };
+    if (result.error) {
+      throw new TreesitterError(result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Runs a treesitter query against a buffer, optionally limited to
+   * startLine..endLine (1-indexed, inclusive), and returns its first
+   * MAX_QUERY_CAPTURES captures, flagging whether there were more.
+   */
+  public async treesitterQuery(
+    query: string,
+    startLine?: number,
+    endLine?: number,
+    target?: BufferTarget,
+  ): Promise<TreesitterQueryResult> {
+    const nvim = await this.connect();
+    const buffer = await this.resolveBuffer(nvim, target);
+    const result = (await nvim.lua(
+      `
+      local bufnr, source, first, last, limit = ...
+      if last < 0 then
+        last = nil
+      end
+      local ok, parser = pcall(vim.treesitter.get_parser, bufnr)
+      if not ok or not parser then
+        return { error = "No treesitter parser available for buffer " .. bufnr }
+      end
+      local root = parser:parse()[1]:root()
+      local parsed, query = pcall(vim.treesitter.query.parse, parser:lang(), source)
+      if not parsed then
+        return { error = "Invalid query: " .. tostring(query) }
+      end
+      local captures = {}
+      local truncated = false
+      for id, node in query:iter_captures(root, bufnr, first, last) do
+        if #captures >= limit then
+          truncated = true
+          break
+        end
+        local start_row, start_col, end_row, end_col = node:range()
+        table.insert(captures, {
+          capture = query.captures[id],
+          type = node:type(),
+          startLine = start_row + 1,
+          startColumn = start_col,
+          endLine = end_row + 1,
+          endColumn = end_col,
+          text = vim.treesitter.get_node_text(node, bufnr),
+        })
+      end
+      return { captures = captures, truncated = truncated }
+      `,
+      [
+        buffer.id,
+        query,
+        (startLine ?? 1) - 1,
+        endLine ?? -1,
+        MAX_QUERY_CAPTURES,
+      ],
+    )) as {
+      captures?: TreesitterCapture[];
+      truncated?: boolean;
+      error?: string;
+    };
+    if (result.error) {
+      throw new TreesitterError(result.error);
+    }
+    return {
+      captures: Array.isArray(result.captures) ? result.captures : [],
+      truncated: result.truncated === true,
+    };
+  }
+
+  /**
+   * Starts `command` (or the user's shell) in a `:terminal` in a new split at
+   * the bottom, or to the right with `vertical`. Focus returns to the
+   * previous window so the user can keep editing while the job runs.
+   */
+  public async openTerminal(
+    command?: string | string[],
+    vertical = false,
+  ): Promise<TerminalInfo> {
+    assertShellAllowed();
+    const nvim = await this.connect();
+    const argv = await prepareCommand(
+      nvim,
+      command ?? String(await nvim.getOption("shell")),
+    );
+    const result = (await nvim.lua(
+      `
+      local argv, vertical = ...
+      local previous = vim.api.nvim_get_current_win()
+      vim.cmd(vertical and "botright vnew" or "botright new")
+      local bufnr = vim.api.nvim_get_current_buf()
+      local opts = {
+        cwd = vim.fn.getcwd(),
+        on_exit = function(_, code)
+          if vim.api.nvim_buf_is_valid(bufnr) then
+            vim.b[bufnr].mcp_exit_code = code
+          end
+        end,
+      }
+      local channel
+      if vim.fn.has("nvim-0.11") == 1 then
+        opts.term = true
+        channel = vim.fn.jobstart(argv, opts)
+      else
+        channel = vim.fn.termopen(argv, opts)
+      end
+      if channel <= 0 then
+        vim.api.nvim_win_close(0, true)
+        return { error = "Could not start " .. argv[1] }
+      end
+      vim.api.nvim_set_current_win(previous)
+      return { bufferId = bufnr, channel = channel, pid = vim.fn.jobpid(channel) }
+      `,
+      [argv, vertical],
+    )) as TerminalInfo & { error?: string };
+    if (result.error) {
+      throw new TerminalError(result.error);
+    }
+    this.terminalCursors.set(result.bufferId, 1);
+    return result;
+  }
+
+  private async terminalChannel(
+    nvim: NeovimClient,
+    bufferId: number,
+  ): Promise<number> {
+    const channel = (await nvim.lua(
+      `
+      local bufnr = ...
+      if not vim.api.nvim_buf_is_valid(bufnr) or vim.bo[bufnr].buftype ~= "terminal" then
+        return -1
+      end
+      return vim.bo[bufnr].channel
+      `,
+      [bufferId],
+    )) as number;
+    if (channel < 0) {
+      throw new TerminalError(`Buffer ${bufferId} is not a terminal`);
+    }
+    return channel;
+  }
+
+  /**
+   * Sends input to the job running in a terminal buffer. With `enter`, a
+   * carriage return is appended so the shell runs the line.
+   */
+  public async sendToTerminal(
+    bufferId: number,
+    input: string,
+    enter = true,
+  ): Promise<void> {
+    assertShellAllowed();
+    const nvim = await this.connect();
+    const channel = await this.terminalChannel(nvim, bufferId);
+    await nvim.call("chansend", [channel, enter ? `${input}\r` : input]);
+  }
+
+  /**
+   * Reads the scrollback of a terminal buffer from `fromLine` (1-indexed) on,
+   * by default from where the previous read stopped. Empty lines at the end,
+   * which are just the unused part of the terminal screen, are left out.
+   */
+  public async readTerminal(
+    bufferId: number,
+    fromLine?: number,
+  ): Promise<TerminalOutput> {
+    const nvim = await this.connect();
+    const channel = await this.terminalChannel(nvim, bufferId);
+    const startLine = fromLine ?? this.terminalCursors.get(bufferId) ?? 1;
+    const result = (await nvim.lua(
+      `
+      local bufnr, channel, first, limit = ...
+      local total = vim.api.nvim_buf_line_count(bufnr)
+      local last_row = total
+      while last_row > 0 and vim.api.nvim_buf_get_lines(bufnr, last_row - 1, last_row, false)[1] == "" do
+        last_row = last_row - 1
+      end
+      local stop = math.min(last_row, first - 1 + limit)
+      local lines = first <= stop and vim.api.nvim_buf_get_lines(bufnr, first - 1, stop, false) or {}
+      local running = vim.fn.jobwait({ channel }, 0)[1] == -1
+      return {
+        lines = lines,
+        remaining = math.max(0, last_row - math.max(stop, first - 1)),
+        running = running,
+        exitCode = vim.b[bufnr].mcp_exit_code,
+      }
+      `,
+      [bufferId, channel, startLine, MAX_TERMINAL_READ_LINES],
+    )) as {
+      lines: string[];
+      remaining: number;
+      running: boolean;
+      exitCode?: number;
+    };
+
+    const nextLine = startLine + result.lines.length;
+    this.terminalCursors.set(bufferId, nextLine);
+    return {
+      bufferId,
+      startLine,
+      nextLine,
+      lines: result.lines,
+      remaining: result.remaining,
+      running: result.running,
+      exitCode: result.exitCode ?? null,
+    };
+  }
+
+  /**
+   * Waits up to `timeoutMs` for the job in a terminal buffer to exit. nvim is
+   * polled rather than blocked, so the user can keep working meanwhile.
+   */
+  public async waitForTerminal(
+    bufferId: number,
+    timeoutMs: number,
+  ): Promise<{ exited: boolean; exitCode: number | null }> {
+    const nvim = await this.connect();
+    const channel = await this.terminalChannel(nvim, bufferId);
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const [status] = (await nvim.call("jobwait", [[channel], 0])) as number[];
+      if (status !== -1) {
+        // The on_exit callback may run just after the job is reaped.
+        await delay(TERMINAL_POLL_MS);
+        const exitCode = (await nvim.lua("return vim.b[...].mcp_exit_code", [
+          bufferId,
+        ])) as number | null;
+        return { exited: true, exitCode: exitCode ?? null };
+      }
+      if (Date.now() >= deadline) {
+        return { exited: false, exitCode: null };
+      }
+      await delay(TERMINAL_POLL_MS);
+    }
+  }
+
+  /**
+   * Starts `command` in the background with jobstart(). Output and the exit
+   * code are sent to this server as they arrive and kept here, so nvim is
+   * never blocked. The job runs in nvim's working directory, or in `cwd` if
+   * that lies inside it.
+   */
+  public async startJob(
+    command: string | string[],
+    cwd?: string,
+  ): Promise<JobStatus> {
+    assertShellAllowed();
+    const nvim = await this.connect();
+    const argv = await prepareCommand(nvim, command);
+    const channel = await nvim.channelId;
+    const result = (await nvim.lua(
+      `
+      local argv, cwd, channel, method = ...
+      local id
+      local function notify(event, data)
+        -- The server may have disconnected since the job started.
+        pcall(vim.rpcnotify, channel, method, id, event, data)
+      end
+      local root = vim.fn.getcwd()
+      if cwd ~= "" then
+        cwd = (vim.fn.fnamemodify(cwd, ":p"):gsub("/$", ""))
+        if cwd ~= root and not vim.startswith(cwd, root .. "/") then
+          return { error = "cwd " .. cwd .. " is outside of nvim's working directory " .. root }
+        end
+      else
+        cwd = root
+      end
+      id = vim.fn.jobstart(argv, {
+        cwd = cwd,
+        on_stdout = function(_, data) notify("stdout", data) end,
+        on_stderr = function(_, data) notify("stderr", data) end,
+        on_exit = function(_, code) notify("exit", code) end,
+      })
+      if id <= 0 then
+        return { error = argv[1] .. (id == -1 and " is not executable" or " has invalid arguments") }
+      end
+      return { id = id, cwd = cwd, pid = vim.fn.jobpid(id) }
+      `,
+      [argv, cwd ?? "", channel, JOB_NOTIFICATION],
+    )) as { id: number; cwd: string; pid: number; error?: string };
+    if (result.error) {
+      throw new ShellCommandError(result.error);
+    }
+
+    const job = createJob(result.id, argv, result.cwd, result.pid);
+    this.jobs.set(job.id, job);
+    for (const [event, data] of this.unclaimedJobEvents.get(job.id) ?? []) {
+      this.applyJobEvent(job, event, data);
+    }
+    this.unclaimedJobEvents.delete(job.id);
+    return this.jobStatus(job);
+  }
+
+  private jobStatus(job: Job): JobStatus {
+    return {
+      id: job.id,
+      command: job.command,
+      cwd: job.cwd,
+      pid: job.pid,
+      running: job.finishedAt === null,
+      exitCode: job.exitCode,
+      runtime:
+        Math.round(((job.finishedAt ?? Date.now()) - job.startedAt) / 100) / 10,
+    };
+  }
+
+  private getJob(jobId: number): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    return job;
+  }
+
+  private pruneJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.finishedAt !== null)
+      .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0));
+    for (const job of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_FINISHED_JOBS),
+    )) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Returns the status of one job, or of all jobs started by this server.
+   */
+  public getJobs(jobId?: number): JobStatus[] {
+    const jobs =
+      jobId === undefined
+        ? Array.from(this.jobs.values())
+        : [this.getJob(jobId)];
+    return jobs.map((job) => this.jobStatus(job));
+  }
+
+  /**
+   * Returns the output of a job that has not been read yet, or all output
+   * that is still kept with `fromStart`.
+   */
+  public getJobOutput(jobId: number, fromStart = false): JobOutput {
+    const job = this.getJob(jobId);
+    return {
+      ...this.jobStatus(job),
+      stdout: readOutput(job.stdout, fromStart),
+      stderr: readOutput(job.stderr, fromStart),
+    };
+  }
+
+  /**
+   * Stops a running job with jobstop(), which sends SIGTERM and, if the job
+   * does not exit, SIGKILL shortly after.
+   */
+  public async killJob(jobId: number): Promise<JobStatus> {
+    const job = this.getJob(jobId);
+    if (job.finishedAt === null) {
+      const nvim = await this.connect();
+      await nvim.call("jobstop", [jobId]);
+    }
+    return this.jobStatus(job);
   }
 
   public async getWindows(): Promise<WindowInfo[]> {
@@ -269,33 +2983,22 @@ export class NeovimManager {
 
       return windowInfos;
     } catch (error) {
-      console.error("Error getting windows:", error);
-      return [];
+      throw vimError(error);
     }
   }
 
-  public async manipulateWindow(command: string): Promise<string> {
-    const validCommands = [
-      "split",
-      "vsplit",
-      "only",
-      "close",
-      "wincmd h",
-      "wincmd j",
-      "wincmd k",
-      "wincmd l",
-    ];
-    if (!validCommands.some((cmd) => command.startsWith(cmd))) {
-      return "Invalid window command";
+  public async manipulateWindow(command: WindowCommand): Promise<string> {
+    if (!WINDOW_COMMANDS.includes(command)) {
+      throw new InvalidArgumentError(`Invalid window command ${command}`);
     }
+    assertPolicy(commandDenial(command));
 
     try {
       const nvim = await this.connect();
       await nvim.command(command);
       return "Window command executed";
     } catch (error) {
-      console.error("Error manipulating window:", error);
-      return "Error executing window command";
+      throw vimError(error);
     }
   }
 
@@ -305,25 +3008,24 @@ export class NeovimManager {
     col: number,
   ): Promise<string> {
     if (!/^[a-z]$/.test(mark)) {
-      return "Invalid mark name (must be a-z)";
+      throw new InvalidArgumentError("Invalid mark name (must be a-z)");
     }
 
     try {
       const nvim = await this.connect();
-      await nvim.command(`mark ${mark}`);
-      const window = await nvim.window;
-      await (window.cursor = [line, col]);
+      const buffer = await nvim.buffer;
+      // Sets the mark directly; `:mark` would use the cursor position.
+      await nvim.request("nvim_buf_set_mark", [buffer, mark, line, col, {}]);
       return `Mark ${mark} set at line ${line}, column ${col}`;
     } catch (error) {
-      console.error("Error setting mark:", error);
-      return "Error setting mark";
+      throw vimError(error);
     }
   }
 
   public async setRegister(register: string, content: string): Promise<string> {
     const validRegisters = [...'abcdefghijklmnopqrstuvwxyz"'];
     if (!validRegisters.includes(register)) {
-      return "Invalid register name";
+      throw new InvalidArgumentError("Invalid register name");
     }
 
     try {
@@ -333,8 +3035,7 @@ export class NeovimManager {
       );
       return `Register ${register} set`;
     } catch (error) {
-      console.error("Error setting register:", error);
-      return "Error setting register";
+      throw vimError(error);
     }
   }
 
@@ -359,8 +3060,7 @@ export class NeovimManager {
 
       return "Visual selection made";
     } catch (error) {
-      console.error("Error making visual selection:", error);
-      return "Error making visual selection";
+      throw vimError(error);
     }
   }
 
@@ -402,8 +3102,7 @@ export class NeovimManager {
 
       return bufferInfos;
     } catch (error) {
-      console.error("Error getting open buffers:", error);
-      return [];
+      throw vimError(error);
     }
   }
 }
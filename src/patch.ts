@@ -0,0 +1,214 @@
+// How many context lines may be dropped from either end of a hunk when it
+// does not match exactly, as with `patch --fuzz=2`.
+const MAX_FUZZ = 2;
+
+interface HunkLine {
+  kind: " " | "-" | "+";
+  text: string;
+}
+
+export interface Hunk {
+  header: string;
+  oldStart: number;
+  lines: HunkLine[];
+}
+
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: Hunk[];
+}
+
+export interface HunkResult {
+  hunk: string;
+  applied: boolean;
+  // Line (1-indexed) in the patched file where the hunk landed.
+  line?: number;
+  // Distance from the line the hunk header asked for.
+  offset?: number;
+  fuzz?: number;
+  ignoredWhitespace?: boolean;
+  error?: string;
+}
+
+function parsePath(line: string): string | null {
+  // Drop the "--- "/"+++ " marker and any trailing timestamp.
+  const path = line.slice(4).split("\t")[0].trim();
+  if (path === "/dev/null") {
+    return null;
+  }
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parses a unified diff with one or more files. Lines outside of file
+ * headers and hunks (e.g. `diff --git` or `index` lines) are ignored.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const files: FilePatch[] = [];
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  let file: FilePatch | null = null;
+  let hunk: Hunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const kind = line[0] ?? " ";
+      if (kind === "\\") {
+        continue;
+      }
+      if (kind !== " " && kind !== "-" && kind !== "+") {
+        throw new Error(`Malformed hunk ${hunk.header}: unexpected "${line}"`);
+      }
+      hunk.lines.push({ kind, text: line.slice(1) });
+      if (kind !== "+") {
+        oldRemaining--;
+      }
+      if (kind !== "-") {
+        newRemaining--;
+      }
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      file = {
+        oldPath: parsePath(line),
+        newPath: parsePath(lines[i + 1]),
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      if (!file) {
+        throw new Error(`Hunk ${line} has no preceding file header`);
+      }
+      hunk = { header: header[0], oldStart: Number(header[1]), lines: [] };
+      oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+      newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+      file.hunks.push(hunk);
+    }
+  }
+
+  if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+    throw new Error(`Hunk ${hunk.header} is truncated`);
+  }
+  return files;
+}
+
+function findBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  ignoreWhitespace: boolean,
+): number {
+  const normalize = (text: string) =>
+    ignoreWhitespace ? text.replace(/\s+/g, " ").trim() : text;
+  const wanted = block.map(normalize);
+  const matchesAt = (start: number) =>
+    wanted.every((text, index) => normalize(lines[start + index]) === text);
+
+  // Search outwards from the expected position so the closest match wins.
+  const last = lines.length - block.length;
+  for (
+    let distance = 0;
+    distance <= Math.max(expected, last - expected);
+    distance++
+  ) {
+    for (const start of [expected - distance, expected + distance]) {
+      if (start >= 0 && start <= last && matchesAt(start)) {
+        return start;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies hunks to the lines of a file. Each hunk is located by its context,
+ * starting at the line its header names and trying progressively looser
+ * matches: exact, ignoring whitespace, then dropping up to MAX_FUZZ context
+ * lines at either end. Hunks that cannot be placed are skipped and reported.
+ */
+export function applyHunks(
+  original: string[],
+  hunks: Hunk[],
+): { lines: string[]; results: HunkResult[] } {
+  const lines = [...original];
+  const results: HunkResult[] = [];
+  // Net lines added by the hunks applied so far.
+  let delta = 0;
+
+  for (const hunk of hunks) {
+    let leading = 0;
+    while (leading < hunk.lines.length && hunk.lines[leading].kind === " ") {
+      leading++;
+    }
+    let trailing = 0;
+    while (
+      trailing < hunk.lines.length - leading &&
+      hunk.lines[hunk.lines.length - 1 - trailing].kind === " "
+    ) {
+      trailing++;
+    }
+
+    let placed: HunkResult | null = null;
+    search: for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const dropStart = Math.min(fuzz, leading);
+      const dropEnd = Math.min(fuzz, trailing);
+      if (fuzz > 0 && dropStart < fuzz && dropEnd < fuzz) {
+        break;
+      }
+      const body = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+      const before = body.filter((l) => l.kind !== "+").map((l) => l.text);
+      const after = body.filter((l) => l.kind !== "-").map((l) => l.text);
+      if (fuzz > 0 && before.length === 0) {
+        // Without any context left the hunk could land anywhere.
+        break;
+      }
+      // A pure insertion with header line N goes after line N.
+      const expected =
+        Math.max(0, hunk.oldStart - (before.length === 0 ? 0 : 1)) +
+        delta +
+        dropStart;
+
+      for (const ignoreWhitespace of [false, true]) {
+        const start =
+          before.length === 0
+            ? Math.min(expected, lines.length)
+            : findBlock(lines, before, expected, ignoreWhitespace);
+        if (start === -1) {
+          continue;
+        }
+        lines.splice(start, before.length, ...after);
+        delta += after.length - before.length;
+        placed = {
+          hunk: hunk.header,
+          applied: true,
+          line: start + 1,
+          offset: start - expected,
+          fuzz,
+          ignoredWhitespace: ignoreWhitespace,
+        };
+        break search;
+      }
+    }
+
+    results.push(
+      placed ?? {
+        hunk: hunk.header,
+        applied: false,
+        error: "context not found in the buffer",
+      },
+    );
+  }
+
+  return { lines, results };
+}
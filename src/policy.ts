@@ -0,0 +1,481 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, isAbsolute, relative, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * The policy file named by NVIM_POLICY, in JSON or YAML:
+ *
+ *   tools:
+ *     deny: [vim_command]          # or allow: [...] to enable only those
+ *   commands:
+ *     deny: ["^w\\s*!", "system\\(", "^lua"]
+ *   workspaceRoot: ~/src/project   # relative paths are from the policy file
+ */
+interface PolicyFile {
+  tools?: { allow?: string[]; deny?: string[] };
+  commands?: { allow?: string[]; deny?: string[] };
+  workspaceRoot?: string;
+}
+
+interface Policy {
+  tools: { allow: Set<string> | null; deny: Set<string> };
+  commands: { allow: RegExp[] | null; deny: RegExp[] };
+  workspaceRoot: string | null;
+}
+
+export interface PolicyDenial {
+  // The policy entry that denied the action, e.g. `commands.deny`.
+  rule: string;
+  reason: string;
+}
+
+let policy: Policy | null = null;
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value;
+}
+
+function compilePatterns(patterns: string[], field: string): RegExp[] {
+  return patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`${field} has an invalid pattern ${pattern}: ${error}`);
+    }
+  });
+}
+
+/**
+ * Reads the policy file named by NVIM_POLICY. Without it everything is
+ * allowed. A policy that cannot be read is an error rather than ignored, so
+ * the server does not start with fewer restrictions than intended.
+ */
+function loadPolicy(): Policy {
+  const path = process.env.NVIM_POLICY;
+  if (!path) {
+    return {
+      tools: { allow: null, deny: new Set() },
+      commands: { allow: null, deny: [] },
+      workspaceRoot: null,
+    };
+  }
+
+  try {
+    const raw = readFileSync(path, "utf8");
+    const parsed: unknown =
+      extname(path) === ".json" ? JSON.parse(raw) : parseYaml(raw);
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error("expected an object");
+    }
+    const file = parsed as PolicyFile;
+    const toolsAllow = stringList(file.tools?.allow, "tools.allow");
+    const commandsAllow = stringList(file.commands?.allow, "commands.allow");
+    const root = file.workspaceRoot;
+    if (root !== undefined && typeof root !== "string") {
+      throw new Error("workspaceRoot must be a string");
+    }
+
+    return {
+      tools: {
+        allow: toolsAllow ? new Set(toolsAllow) : null,
+        deny: new Set(stringList(file.tools?.deny, "tools.deny")),
+      },
+      commands: {
+        allow: commandsAllow
+          ? compilePatterns(commandsAllow, "commands.allow")
+          : null,
+        deny: compilePatterns(
+          stringList(file.commands?.deny, "commands.deny") ?? [],
+          "commands.deny",
+        ),
+      },
+      workspaceRoot: root
+        ? resolve(
+            dirname(path),
+            root.replace(/^~(?=$|\/)/, process.env.HOME ?? "~"),
+          )
+        : null,
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid policy file ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+function getPolicy(): Policy {
+  policy ??= loadPolicy();
+  return policy;
+}
+
+/**
+ * Loads the policy if it is not loaded yet, throwing if it is invalid. Called
+ * at startup so that a bad policy file stops the server before it accepts
+ * clients.
+ */
+export function initPolicy(): void {
+  getPolicy();
+}
+
+export function isToolEnabled(name: string): boolean {
+  const { allow, deny } = getPolicy().tools;
+  return !deny.has(name) && (allow === null || allow.has(name));
+}
+
+export function hasWorkspaceRoot(): boolean {
+  return getPolicy().workspaceRoot !== null;
+}
+
+/**
+ * One command of an Ex command line, without its modifiers and range.
+ */
+export interface ExCommand {
+  // The command name as typed, e.g. `w` or `saveas`, or `!` for a shell
+  // command.
+  name: string;
+  bang: boolean;
+  argument: string;
+  // The command with its bang and argument, e.g. `w! /tmp/x`.
+  text: string;
+}
+
+// Command modifiers with their shortest abbreviation; `:filter` is stripped
+// together with its pattern.
+const MODIFIERS: [string, number][] = [
+  ["aboveleft", 3],
+  ["belowright", 3],
+  ["botright", 2],
+  ["browse", 3],
+  ["confirm", 4],
+  ["hide", 3],
+  ["horizontal", 3],
+  ["keepalt", 5],
+  ["keepjumps", 5],
+  ["keepmarks", 3],
+  ["keeppatterns", 5],
+  ["leftabove", 5],
+  ["legacy", 3],
+  ["lockmarks", 3],
+  ["noautocmd", 3],
+  ["noswapfile", 3],
+  ["rightbelow", 6],
+  ["sandbox", 3],
+  ["silent", 3],
+  ["tab", 3],
+  ["topleft", 2],
+  ["unsilent", 3],
+  ["verbose", 4],
+  ["vertical", 4],
+  ["vim9cmd", 4],
+];
+
+/**
+ * Whether `name` is `command` or one of its abbreviations of at least `min`
+ * characters, as Vim accepts them.
+ */
+function isAbbreviation(name: string, command: string, min: number): boolean {
+  return name.length >= min && command.startsWith(name);
+}
+
+// Leading whitespace, colons and line ranges such as `%`, `1,3`, `'<,'>` or
+// `/pattern/+1`.
+const RANGE =
+  /^(?:[\s:\d.$%,;+-]|'.|\/(?:\\.|[^/])*\/?|\?(?:\\.|[^?])*\??|\\[/?&])*/;
+const FILTER = /^filt(?:e|er)?!?\s*(?:\/(?:\\.|[^/])*\/|\S+)\s*/;
+
+// The `++opt` and `+cmd` arguments in front of a file name.
+const OPTIONS = /^(?:\+(?:\\\s|\S)+\s*)*/;
+
+// The string literals of an expression, e.g. the command built by `:exe`.
+const STRING_LITERAL = /"((?:\\.|[^"\\])*)"|'((?:''|[^'])*)'/g;
+
+/**
+ * Splits an Ex command line on `|` into its commands and strips modifiers
+ * such as `silent` and `keepalt`, counts and ranges from each. The strings
+ * in `:execute` arguments and `+cmd` arguments, as in `:edit +cmd file`, are
+ * parsed as commands too. Splitting ignores that some commands take `|` as
+ * part of their argument, so a line may yield more commands than Vim runs,
+ * never fewer.
+ */
+export function parseExCommands(line: string): ExCommand[] {
+  const commands: ExCommand[] = [];
+  for (const part of line.split("|")) {
+    let rest = part;
+    for (;;) {
+      rest = rest.replace(RANGE, "");
+      const filter = FILTER.exec(rest);
+      if (filter) {
+        rest = rest.slice(filter[0].length);
+        continue;
+      }
+      const word = /^([a-z0-9]+)(!?)\s*/.exec(rest);
+      if (
+        !word ||
+        !MODIFIERS.some(([modifier, min]) =>
+          isAbbreviation(word[1], modifier, min),
+        )
+      ) {
+        break;
+      }
+      rest = rest.slice(word[0].length);
+    }
+
+    const match = /^(!|[a-zA-Z]+)(!?)\s*([\s\S]*)$/.exec(rest);
+    if (!match) {
+      continue;
+    }
+    const [text, name, bang, argument] = match;
+    commands.push({ name, bang: bang === "!", argument, text: text.trim() });
+
+    const command = /^(?:\+\+\S+\s+)*\+(?!\+)((?:\\\s|\S)+)/.exec(argument);
+    if (command) {
+      commands.push(...parseExCommands(command[1].replace(/\\(\s)/g, "$1")));
+    }
+    if (isAbbreviation(name, "execute", 3)) {
+      const built = Array.from(
+        argument.matchAll(STRING_LITERAL),
+        ([, double, single]) =>
+          double !== undefined
+            ? double.replace(/\\(.)/g, "$1")
+            : single.replace(/''/g, "'"),
+      ).join("");
+      commands.push(...parseExCommands(built));
+    }
+  }
+  return commands;
+}
+
+// Commands that write the current buffer when given no file name.
+const WRITE_COMMANDS: [string, number][] = [
+  ["write", 1],
+  ["wq", 2],
+  ["xit", 1],
+  ["exit", 3],
+  ["update", 2],
+  ["wnext", 2],
+  ["wNext", 2],
+  ["wprevious", 2],
+];
+const WRITE_ALL_COMMANDS: [string, number][] = [
+  ["wall", 2],
+  ["wqall", 3],
+  ["xall", 2],
+];
+// Commands that name or open a file, which later writes go to.
+const FILE_COMMANDS: [string, number][] = [
+  ["saveas", 3],
+  ["file", 1],
+  ["edit", 1],
+  ["ex", 2],
+  ["split", 2],
+  ["vsplit", 2],
+  ["new", 3],
+  ["vnew", 3],
+  ["tabedit", 4],
+  ["tabnew", 6],
+  ["badd", 3],
+  ["view", 3],
+];
+// Commands that write to the file they are given, with the file they write
+// without one; null where that lies in a directory of the editor, such as
+// 'viewdir' or the ShaDa file's, which is not checked.
+const SAVE_COMMANDS: [string, number, string | null][] = [
+  ["mksession", 3, "Session.vim"],
+  ["mkexrc", 2, ".exrc"],
+  ["mkvimrc", 3, ".vimrc"],
+  ["mkview", 5, null],
+  ["wshada", 3, null],
+  ["wviminfo", 2, null],
+  ["wundo", 2, null],
+];
+// Relative file names are resolved from the working directory.
+const CD_COMMANDS: [string, number][] = [
+  ["cd", 2],
+  ["chdir", 3],
+  ["lcd", 2],
+  ["lchdir", 3],
+  ["tcd", 2],
+  ["tchdir", 3],
+];
+
+const isOneOf = (name: string, commands: [string, number][]) =>
+  commands.some(([command, min]) => isAbbreviation(name, command, min));
+
+export type CommandTarget =
+  { file: string; directory?: boolean } | { denial: PolicyDenial };
+
+/**
+ * The file a command writes, opens or changes directory to, as typed: `%` is
+ * the current buffer and `*` all modified buffers. Relative names after a
+ * change of directory are relative to the new one. Besides `:write` and its
+ * kin this covers `:redir > file`, `:mksession`, `:mkview`, `:wshada` and
+ * `:wundo`. Writes piped to a shell command, writes to a default file of the
+ * editor (`:mkview`, `:wshada` without a file) and file names with
+ * backticks, which Vim evaluates, are denied since their target cannot be
+ * checked.
+ */
+export function commandTarget({
+  name,
+  argument,
+  text,
+}: ExCommand): CommandTarget | null {
+  const file = argument
+    .replace(OPTIONS, "")
+    .replace(/^>>\s*/, "")
+    .trim();
+  const uncheckable = {
+    denial: {
+      rule: "workspaceRoot",
+      reason: `Cannot check the file of "${text}"`,
+    },
+  };
+  const write = isOneOf(name, WRITE_COMMANDS);
+  if ((write && file.startsWith("!")) || file.includes("`")) {
+    return uncheckable;
+  }
+  if (isAbbreviation(name, "redir", 4)) {
+    // Redirections to a register or variable, and `:redir END`, write none.
+    const redirect = /^>>?\s*(.*)$/.exec(argument.trim());
+    return redirect ? { file: redirect[1] } : null;
+  }
+  const save = SAVE_COMMANDS.find(([command, min]) =>
+    isAbbreviation(name, command, min),
+  );
+  if (save) {
+    // `:mkview 1` to `:mkview 9` write to 'viewdir' as well.
+    const target = /^\d?$/.test(file) ? save[2] : file;
+    return target ? { file: target } : uncheckable;
+  }
+  if (write) {
+    return { file: file || "%" };
+  }
+  if (isOneOf(name, WRITE_ALL_COMMANDS)) {
+    return { file: "*" };
+  }
+  if (isOneOf(name, FILE_COMMANDS)) {
+    return file ? { file } : null;
+  }
+  if (isOneOf(name, CD_COMMANDS)) {
+    return { file: file || "~", directory: true };
+  }
+  return null;
+}
+
+// Commands that run their argument with the shell, or the shell itself
+// without one.
+const SHELL_COMMANDS: [string, number][] = [
+  ["terminal", 3],
+  ["shell", 2],
+];
+// Commands that run the program of an option such as 'makeprg'.
+const PROGRAM_COMMANDS: [string, number][] = [
+  ["make", 3],
+  ["lmake", 4],
+  ["grep", 2],
+  ["lgrep", 3],
+  ["grepadd", 5],
+  ["lgrepadd", 6],
+];
+// Functions that start a process from an expression or Lua code.
+const SHELL_FUNCTIONS =
+  /\b(?:system|systemlist|jobstart|termopen)\s*\(|\bos\.execute\b|\bio\.popen\b/;
+// Characters Vim (`%`, `#`, `!`) or the shell (globs, `~`) expand.
+const SHELL_EXPANSIONS = /[%#!*?[\]{}~]/;
+
+export type ShellRun = { command: string | null } | { reason: string };
+
+/**
+ * The shell command an Ex command runs: the argument of `:!`, `:{range}!`,
+ * `:r !cmd`, `:w !cmd` and `:terminal`, or null for the user's shell as
+ * `:shell` and `:terminal` without an argument start it. Commands whose
+ * program is only known when they run, such as `:make`, `:grep` and calls
+ * of `system()`, and shell commands with characters that Vim or the shell
+ * expand, come with the reason they cannot be checked instead.
+ */
+export function shellRun({
+  name,
+  bang,
+  argument,
+  text,
+}: ExCommand): ShellRun | null {
+  const file = argument.replace(OPTIONS, "").trim();
+  let command: string | null;
+  if (name === "!") {
+    // `:!!` repeats the previous shell command.
+    command = bang ? "!" : argument.trim();
+  } else if (
+    isAbbreviation(name, "read", 1) &&
+    (bang || file.startsWith("!"))
+  ) {
+    command = (bang ? file : file.slice(1)).trim();
+  } else if (isAbbreviation(name, "write", 1) && file.startsWith("!")) {
+    command = file.slice(1).trim();
+  } else if (isOneOf(name, SHELL_COMMANDS)) {
+    command = argument.trim() || null;
+  } else if (isOneOf(name, PROGRAM_COMMANDS) || SHELL_FUNCTIONS.test(text)) {
+    return { reason: `Cannot check the shell command of "${text}"` };
+  } else {
+    return null;
+  }
+  if (command === "" || (command !== null && SHELL_EXPANSIONS.test(command))) {
+    return { reason: `Cannot check the shell command of "${text}"` };
+  }
+  return { command };
+}
+
+/**
+ * Checks an Ex command line (without its leading colon) against the command
+ * patterns. Each command of the line is matched on its own, without
+ * modifiers and ranges, so `^lua` also matches `silent lua ...` and
+ * `echo 1 | lua ...`. Patterns are regular expressions searched anywhere in
+ * the command, so anchor them with `^` to match the command name. Commands
+ * built from variables at runtime, e.g. `exe cmd` or `call execute(cmd)`,
+ * cannot be seen; deny `^exe` and `execute\(` to rule them out.
+ */
+export function commandDenial(command: string): PolicyDenial | null {
+  const { allow, deny } = getPolicy().commands;
+  if (!allow && deny.length === 0) {
+    return null;
+  }
+  const texts = parseExCommands(command).map(({ text }) => text);
+  for (const text of texts) {
+    const denied = deny.find((pattern) => pattern.test(text));
+    if (denied) {
+      return {
+        rule: "commands.deny",
+        reason: `Command "${text}" matches the denied pattern ${denied.source}`,
+      };
+    }
+    if (allow && !allow.some((pattern) => pattern.test(text))) {
+      return {
+        rule: "commands.allow",
+        reason: `Command "${text}" matches none of the allowed patterns`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks that an absolute path lies inside the workspace root.
+ */
+export function pathDenial(path: string): PolicyDenial | null {
+  const root = getPolicy().workspaceRoot;
+  if (root === null) {
+    return null;
+  }
+  const inside = relative(root, path);
+  if (inside === ".." || inside.startsWith("../") || isAbsolute(inside)) {
+    return {
+      rule: "workspaceRoot",
+      reason: `${path} is outside of the workspace root ${root}`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,1977 @@
+/**
+ * The MCP server: resources and tools backed by NeovimManager.
+ */
+
+import {
+  McpServer,
+  ResourceTemplate,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { unifiedDiff } from "./diff.js";
+import {
+  BufferTarget,
+  ChangeEvent,
+  InvalidRangeError,
+  NeovimManager,
+  PatchError,
+  ToolError,
+  vimError,
+  WINDOW_COMMANDS,
+} from "./neovim.js";
+import { isToolEnabled } from "./policy.js";
+import { z, ZodRawShape } from "zod";
+
+/**
+ * Reports an error thrown by a tool as a result the client can act on: the
+ * error code (see ToolError) and message, plus the details the error
+ * carries, e.g. the rule of a policy denial or the current lines of a
+ * conflicting buffer. Unexpected errors have the code `internal-error`.
+ */
+function errorResult(thrown: unknown) {
+  const error = vimError(thrown);
+  let details: Record<string, unknown>;
+  if (error instanceof ToolError) {
+    const { name, code, message, stack, ...fields } = error;
+    details = { error: code, message, ...fields };
+  } else {
+    console.error("Unexpected error in tool:", error);
+    details = {
+      error: "internal-error",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(details, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+const instanceParam = z
+  .string()
+  .optional()
+  .describe(
+    "Socket path of the Neovim instance to target, as listed by nvim://instances. Defaults to NVIM_SOCKET_PATH",
+  );
+
+const bufferParam = z
+  .union([z.number(), z.string()])
+  .optional()
+  .describe(
+    "Buffer number or file path to operate on. Defaults to the current buffer; other buffers are edited in the background without switching windows",
+  );
+
+const expectedTickParam = z
+  .number()
+  .optional()
+  .describe(
+    "The buffer's changedtick as returned by vim_buffer. If the buffer changed since then, the edit is rejected with a conflict instead of being applied",
+  );
+
+const formatParam = z
+  .boolean()
+  .default(true)
+  .describe(
+    "Run the formatter configured for the buffer's filetype (NVIM_FORMATTERS) after editing. Set to false to keep the text exactly as given",
+  );
+
+const returnBufferParam = z
+  .boolean()
+  .default(false)
+  .describe(
+    "Return the whole numbered buffer instead of a diff of the changes. Only needed when the diff is not enough context",
+  );
+
+/**
+ * Builds the result of an edit tool: a numbered unified diff between
+ * `before` and the buffer as it is now (including formatter changes), or the
+ * whole buffer if requested, followed by the buffer state. The structured
+ * result has the state and the diff.
+ */
+async function editResult(
+  neovimManager: NeovimManager,
+  before: string[],
+  buffer: BufferTarget | undefined,
+  returnBuffer: boolean,
+  extra: Record<string, unknown> = {},
+) {
+  const { lines, state } = await neovimManager.readBuffer(buffer);
+  const diff = unifiedDiff(before, lines, {
+    oldName: "before",
+    newName: "after",
+    numbered: true,
+  });
+  const text = returnBuffer
+    ? lines.map((line, index) => `${index + 1}: ${line}`).join("\n")
+    : diff || "No changes";
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+      {
+        type: "text" as const,
+        text: JSON.stringify({ ...state, ...extra }),
+      },
+    ],
+    structuredContent: { ...state, diff, ...extra },
+  };
+}
+
+// Reads return at most this many lines unless endLine asks for more.
+const DEFAULT_PAGE_SIZE = 1000;
+
+const startLineParam = z
+  .number()
+  .int()
+  .min(1)
+  .default(1)
+  .describe(
+    "First line to return (1-indexed). Use to page through large files",
+  );
+
+const endLineParam = z
+  .number()
+  .int()
+  .min(1)
+  .optional()
+  .describe(
+    `Last line to return (1-indexed, inclusive). Defaults to ${DEFAULT_PAGE_SIZE} lines after startLine`,
+  );
+
+/**
+ * Renders startLine..endLine of a buffer as numbered lines, preceded by a
+ * header with the total line count and followed by a marker telling the
+ * client how to continue if lines were left out: by reading again with the
+ * next startLine, or for resources, which take no line range, with
+ * vim_buffer.
+ */
+function numberedPage(
+  bufferLines: string[],
+  startLine = 1,
+  endLine = startLine + DEFAULT_PAGE_SIZE - 1,
+  resourceOf?: number,
+): string {
+  if (endLine < startLine) {
+    throw new InvalidRangeError(
+      `endLine ${endLine} must not be before startLine ${startLine}`,
+    );
+  }
+  const total = bufferLines.length;
+  const last = Math.min(endLine, total);
+  const lines = [
+    total === 0 || startLine > total
+      ? `[No lines from line ${startLine}, ${total} lines total]`
+      : `[Lines ${startLine}-${last} of ${total}]`,
+  ];
+  for (let lineNum = startLine; lineNum <= last; lineNum++) {
+    lines.push(`${lineNum}: ${bufferLines[lineNum - 1]}`);
+  }
+  if (last < total) {
+    const next =
+      resourceOf === undefined
+        ? `read again with startLine ${last + 1}`
+        : `read on with vim_buffer, buffer ${resourceOf} and startLine ${last + 1}`;
+    lines.push(`[Truncated: ${total - last} more lines, ${next}]`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Builds the result of a read: the numbered page of the buffer followed by
+ * its state. The structured result has the state and the lines of the page.
+ */
+async function pageResult(
+  neovimManager: NeovimManager,
+  buffer: BufferTarget | undefined,
+  startLine = 1,
+  endLine = startLine + DEFAULT_PAGE_SIZE - 1,
+) {
+  const { lines, state } = await neovimManager.readBuffer(buffer);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: numberedPage(lines, startLine, endLine),
+      },
+      {
+        type: "text" as const,
+        text: JSON.stringify(state),
+      },
+    ],
+    structuredContent: {
+      ...state,
+      startLine,
+      lines: lines.slice(startLine - 1, endLine),
+    },
+  };
+}
+
+const positionParams = {
+  line: z.number().int().min(1).describe("Line of the symbol (1-indexed)"),
+  column: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Column of the symbol (0-indexed character offset)"),
+  buffer: bufferParam,
+  instance: instanceParam,
+};
+
+const shellCommandParam = z
+  .union([z.string(), z.array(z.string()).min(1)])
+  .describe(
+    "Command as an argument list, e.g. ['npm', 'test'], or a command line that is split into arguments like a shell would. It runs without a shell, so pipes, redirections and && are not supported",
+  );
+
+const terminalParam = z
+  .number()
+  .int()
+  .describe("Buffer id of the terminal, as returned by vim_terminal_open");
+
+const jobParam = z
+  .number()
+  .int()
+  .describe("Id of the job, as returned by vim_job_start");
+
+// Output schemas of the tools returning structured results.
+
+const bufferStateShape = {
+  bufferId: z.number(),
+  changedtick: z
+    .number()
+    .describe("Pass as expectedTick to edits to detect concurrent changes"),
+  hash: z
+    .string()
+    .describe("First 16 hex digits of the SHA-256 of the buffer's lines"),
+  lineCount: z.number(),
+};
+
+const bufferPageShape = {
+  ...bufferStateShape,
+  startLine: z.number().describe("Line number of the first returned line"),
+  lines: z.array(z.string()),
+};
+
+const editResultShape = {
+  ...bufferStateShape,
+  diff: z
+    .string()
+    .describe("Numbered unified diff of the edit, empty if nothing changed"),
+  format: z
+    .object({
+      status: z.enum(["formatted", "unchanged", "skipped", "failed"]),
+      formatter: z.string().optional(),
+      changedLines: z.tuple([z.number(), z.number()]).optional(),
+      changedOutsideEdit: z.boolean().optional(),
+      error: z.string().optional(),
+    })
+    .optional(),
+};
+
+const replaceTextShape = {
+  ...bufferStateShape,
+  startLine: z.number(),
+  endLine: z.number(),
+  matches: z.number().describe("How often oldText occurred in the buffer"),
+};
+
+const replaceNodeShape = {
+  ...bufferStateShape,
+  name: z.string().describe("Full dotted name of the replaced symbol"),
+  startLine: z.number(),
+  endLine: z.number(),
+};
+
+const statusShape = {
+  cursorPosition: z
+    .tuple([z.number(), z.number()])
+    .describe("Line (1-indexed) and column (0-indexed) of the cursor"),
+  mode: z.string(),
+  visualSelection: z.string(),
+  fileName: z.string(),
+  windowLayout: z.string().describe("winlayout() as JSON"),
+  currentTab: z.number(),
+  marks: z.record(z.tuple([z.number(), z.number()])),
+  registers: z.record(z.string()),
+  cwd: z.string(),
+};
+
+const buffersShape = {
+  buffers: z.array(
+    z.object({
+      number: z.number(),
+      name: z.string(),
+      isListed: z.boolean(),
+      isLoaded: z.boolean(),
+      modified: z.boolean(),
+      syntax: z.string(),
+      windowIds: z.array(z.number()),
+    }),
+  ),
+};
+
+const windowsShape = {
+  windows: z.array(
+    z.object({
+      id: z.number(),
+      bufferId: z.number(),
+      width: z.number(),
+      height: z.number(),
+      row: z.number(),
+      col: z.number(),
+    }),
+  ),
+};
+
+// Editor change listeners of the connected clients, and the resources each
+// of them subscribed to.
+const changeListeners = new Set<(change: ChangeEvent) => void>();
+const clientSubscriptions = new Set<Set<string>>();
+// Changes are batched for this long so that typing does not send a
+// notification per keystroke.
+const CHANGE_DEBOUNCE_MS = 200;
+
+function bufferIdOf(uri: string): number | null {
+  const match = uri.match(/^nvim:\/\/buffer\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Stops watching a buffer once no client subscribes to it anymore.
+ */
+function releaseBuffer(uri: string) {
+  const bufferId = bufferIdOf(uri);
+  if (
+    bufferId !== null &&
+    !Array.from(clientSubscriptions).some((uris) => uris.has(uri))
+  ) {
+    NeovimManager.getInstance().unwatchBuffer(bufferId);
+  }
+}
+
+/**
+ * Creates an MCP server with all resources and tools. Each client gets its
+ * own server (one for stdio, one per HTTP session); they share the
+ * NeovimManager instances and with them the Neovim connections.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "mcp-neovim-server",
+    description: "Hello world",
+    version: "0.4.1",
+  });
+
+  // Every tool is registered through the policy (NVIM_POLICY), which leaves
+  // out the tools it disables. Errors thrown by a handler become an error
+  // result with a code.
+  const registerTool = <
+    InputArgs extends ZodRawShape,
+    OutputArgs extends ZodRawShape,
+  >(
+    name: string,
+    config: {
+      description?: string;
+      inputSchema: InputArgs;
+      outputSchema?: OutputArgs;
+    },
+    callback: ToolCallback<InputArgs, OutputArgs>,
+  ) => {
+    if (!isToolEnabled(name)) {
+      return;
+    }
+    const handler = callback as (...args: unknown[]) => unknown;
+    server.registerTool(name, config, (async (...args: unknown[]) => {
+      try {
+        return await handler(...args);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }) as ToolCallback<InputArgs, OutputArgs>);
+  };
+
+  // Register resources
+  server.resource(
+    "session",
+    new ResourceTemplate("nvim://session", {
+      list: () => ({
+        resources: [
+          {
+            uri: "nvim://session",
+            mimeType: "text/plain",
+            name: "Current neovim session",
+            description: "Current neovim text editor session",
+          },
+        ],
+      }),
+    }),
+    async (uri) => {
+      const neovimManager = NeovimManager.getInstance();
+      const { lines, state } = await neovimManager.readBuffer();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: numberedPage(lines, 1, undefined, state.bufferId),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "buffers",
+    new ResourceTemplate("nvim://buffers", {
+      list: () => ({
+        resources: [
+          {
+            uri: "nvim://buffers",
+            mimeType: "application/json",
+            name: "Open Neovim buffers",
+            description:
+              "List of all open buffers in the current Neovim session",
+          },
+        ],
+      }),
+    }),
+    async (uri) => {
+      const neovimManager = NeovimManager.getInstance();
+      const openBuffers = await neovimManager.getOpenBuffers();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(openBuffers, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "buffer",
+    new ResourceTemplate("nvim://buffer/{id}", {
+      list: async () => {
+        const neovimManager = NeovimManager.getInstance();
+        const openBuffers = await neovimManager.getOpenBuffers();
+        return {
+          resources: openBuffers.map((buffer) => ({
+            uri: `nvim://buffer/${buffer.number}`,
+            mimeType: "text/plain",
+            name: buffer.name || `Buffer ${buffer.number}`,
+            description: `Contents of Neovim buffer ${buffer.number}`,
+          })),
+        };
+      },
+    }),
+    async (uri, { id }) => {
+      const neovimManager = NeovimManager.getInstance();
+      const { lines, state } = await neovimManager.readBuffer(Number(id));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: numberedPage(lines, 1, undefined, state.bufferId),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "instances",
+    new ResourceTemplate("nvim://instances", {
+      list: () => ({
+        resources: [
+          {
+            uri: "nvim://instances",
+            mimeType: "application/json",
+            name: "Neovim instances",
+            description:
+              "Discovered Neovim sockets with each instance's working directory and current file",
+          },
+        ],
+      }),
+    }),
+    async (uri) => {
+      const instances = await NeovimManager.listInstances();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(instances, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "diagnostics",
+    new ResourceTemplate("nvim://diagnostics", {
+      list: () => ({
+        resources: [
+          {
+            uri: "nvim://diagnostics",
+            mimeType: "application/json",
+            name: "Neovim diagnostics",
+            description:
+              "Errors, warnings and hints reported by vim.diagnostic (LSP, linters) for all buffers",
+          },
+        ],
+      }),
+    }),
+    async (uri) => {
+      const neovimManager = NeovimManager.getInstance();
+      const diagnostics = await neovimManager.getDiagnostics(undefined, true);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(diagnostics, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // Resource subscriptions of this client.
+  const subscriptions = new Set<string>();
+  const pendingNotifications = new Map<string, NodeJS.Timeout>();
+  clientSubscriptions.add(subscriptions);
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.add(uri);
+    const bufferId = bufferIdOf(uri);
+    if (bufferId !== null) {
+      await NeovimManager.getInstance().watchBuffer(bufferId);
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.delete(uri);
+    releaseBuffer(uri);
+    return {};
+  });
+
+  const debounce = (key: string, send: () => Promise<void> | void) => {
+    if (pendingNotifications.has(key)) {
+      return;
+    }
+    pendingNotifications.set(
+      key,
+      setTimeout(() => {
+        pendingNotifications.delete(key);
+        Promise.resolve(send()).catch((error) =>
+          console.error("Error sending resource notification:", error),
+        );
+      }, CHANGE_DEBOUNCE_MS),
+    );
+  };
+
+  // Maps an editor change to the resources it affects and notifies the
+  // client: resources/updated for subscribed resources, and
+  // resources/list_changed when buffers were added or deleted.
+  const onEditorChange = ({ event, bufferId }: ChangeEvent) => {
+    const buffer = `nvim://buffer/${bufferId}`;
+    const updated: Record<string, string[]> = {
+      BufEnter: ["nvim://session", "nvim://buffers", "nvim://instances"],
+      BufAdd: ["nvim://buffers"],
+      BufDelete: ["nvim://buffers", buffer],
+      BufWritePost: ["nvim://buffers", buffer],
+      BufModifiedSet: ["nvim://buffers", buffer],
+      TextChanged: ["nvim://session", buffer],
+      TextChangedI: ["nvim://session", buffer],
+      lines: [buffer],
+      DirChanged: ["nvim://session", "nvim://instances"],
+      DiagnosticChanged: ["nvim://diagnostics"],
+    };
+    for (const uri of updated[event] ?? []) {
+      if (subscriptions.has(uri)) {
+        debounce(uri, () => server.server.sendResourceUpdated({ uri }));
+      }
+    }
+    if (event === "BufAdd" || event === "BufDelete") {
+      debounce("list_changed", () => server.sendResourceListChanged());
+    }
+  };
+  changeListeners.add(onEditorChange);
+
+  server.server.onclose = () => {
+    changeListeners.delete(onEditorChange);
+    clientSubscriptions.delete(subscriptions);
+    for (const uri of subscriptions) {
+      releaseBuffer(uri);
+    }
+    for (const timer of pendingNotifications.values()) {
+      clearTimeout(timer);
+    }
+  };
+
+  /// Register tools with proper parameter schemas
+
+  registerTool(
+    "vim_buffer",
+    {
+      description:
+        "Gets the contents of the currently opened nvim buffer, or of another buffer by number or path",
+      inputSchema: {
+        buffer: bufferParam,
+        startLine: startLineParam,
+        endLine: endLineParam,
+        instance: instanceParam,
+      },
+      outputSchema: bufferPageShape,
+    },
+    async ({ buffer, startLine, endLine, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      return pageResult(neovimManager, buffer, startLine, endLine);
+    },
+  );
+
+  registerTool(
+    "vim_open",
+    {
+      description:
+        "Opens a file in the current buffer using the path provided and returns the content",
+      inputSchema: {
+        path: z
+          .string()
+          .describe("Absolute or relative path for the file to be opened"),
+        startLine: startLineParam,
+        endLine: endLineParam,
+        instance: instanceParam,
+      },
+      outputSchema: bufferPageShape,
+    },
+    async ({ path, startLine, endLine, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Opening file: ${path}`);
+      await neovimManager.openFile(path);
+      return pageResult(neovimManager, undefined, startLine, endLine);
+    },
+  );
+
+  registerTool(
+    "vim_command",
+    {
+      inputSchema: {
+        command: z
+          .string()
+          .describe(
+            "Vim command to execute (use ! prefix for shell commands if enabled; they block nvim, so use vim_job_start for long-running ones)",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ command, instance }) => {
+      console.error(`Executing command: ${command}`);
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.sendCommand(command);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_pwd",
+    {
+      description: `Returns the starting point of the current vim session`,
+      inputSchema: {
+        instance: instanceParam,
+      },
+    },
+    async ({ instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const command = "pwd";
+      console.error(`Executing command: ${command}`);
+
+      const result = await neovimManager.sendCommand(command);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_find_file",
+    {
+      description: `Returns multiple paths of files which match the name`,
+      inputSchema: {
+        filename: z.string().describe("file name to search for"),
+        instance: instanceParam,
+      },
+    },
+    async ({ filename, instance }) => {
+      // Passed as a single argument, so quotes or spaces in filename are safe.
+      const command = ["find", ".", "-name", filename];
+      console.error(`Executing command: ${command.join(" ")}`);
+
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.runCommand(command);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_file_tree",
+    {
+      description: `Returns the file tree down from the starting point of the current vim session`,
+      inputSchema: {
+        instance: instanceParam,
+      },
+    },
+    async ({ instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const command = ["tree", ".", "-I", "node_modules|target|bin|build|.git"];
+      console.error(`Executing command: ${command.join(" ")}`);
+
+      const result = await neovimManager.runCommand(command);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_status",
+    {
+      inputSchema: {
+        instance: instanceParam,
+      },
+      outputSchema: statusShape,
+    },
+    async ({ instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const status = await neovimManager.getNeovimStatus();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(status),
+          },
+        ],
+        structuredContent: { ...status },
+      };
+    },
+  );
+
+  registerTool(
+    "vim_buffers",
+    {
+      description:
+        "Lists the open buffers with their number, name, modified state, syntax and the windows showing them, like the nvim://buffers resource",
+      inputSchema: {
+        instance: instanceParam,
+      },
+      outputSchema: buffersShape,
+    },
+    async ({ instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const buffers = await neovimManager.getOpenBuffers();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(buffers, null, 2),
+          },
+        ],
+        structuredContent: { buffers },
+      };
+    },
+  );
+
+  registerTool(
+    "vim_insert_multiple",
+    {
+      description: `Allows multiple insertions at one time. Always inserts before the linenumber.
+     Automatically handles line offsets when inserting (i.e. counting newlines and
+     amount of insertions).`,
+      inputSchema: {
+        actions: z.array(
+          z.object({
+            startLine: z
+              .number()
+              .describe(
+                "The line number where insertion should begin (1-indexed)",
+              ),
+            content: z
+              .string()
+              .describe("The text content to be inserted at the line"),
+          }),
+        ),
+        buffer: bufferParam,
+        expectedTick: expectedTickParam,
+        format: formatParam,
+        returnBuffer: returnBufferParam,
+        instance: instanceParam,
+      },
+      outputSchema: editResultShape,
+    },
+    async ({
+      actions,
+      buffer,
+      expectedTick,
+      format,
+      returnBuffer,
+      instance,
+    }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const { lines: before } = await neovimManager.readBuffer(buffer);
+      // Inserts are applied together against the original line numbers, so
+      // either all of them land (as one undo step) or none do.
+      const operations = actions.map((e) => ({
+        mode: "insert" as const,
+        startLine: e.startLine,
+        lines: e.content,
+      }));
+      console.error(`Editing batch: ${JSON.stringify(operations)}`);
+      await neovimManager.editBatch(operations, buffer, expectedTick);
+      const insertedLines = actions.reduce(
+        (count, e) => count + e.content.split("\n").length,
+        0,
+      );
+      const formatResult = format
+        ? await neovimManager.formatBuffer(
+            Math.min(...actions.map((e) => e.startLine)),
+            Math.max(...actions.map((e) => e.startLine)) + insertedLines - 1,
+            buffer,
+          )
+        : { status: "skipped" };
+
+      return editResult(neovimManager, before, buffer, returnBuffer, {
+        format: formatResult,
+      });
+    },
+  );
+
+  registerTool(
+    "vim_edit",
+    {
+      description:
+        "Allows manipulation of the currently opened buffer, or of another buffer by number or path",
+      inputSchema: {
+        startLine: z
+          .number()
+          .describe("The line number where editing should begin (1-indexed)"),
+        endLine: z
+          .number()
+          .optional()
+          .describe(
+            "The last line (1-indexed, inclusive) to replace or delete. Without it, replace overwrites as many lines as the new text has and delete removes only startLine",
+          ),
+        mode: z
+          .enum(["insert", "replace", "replaceAll", "delete"])
+          .describe(
+            "Whether to insert new content, replace existing content, replace entire buffer, or delete lines",
+          ),
+        lines: z
+          .string()
+          .default("")
+          .describe(
+            "The text content to insert or use as replacement (ignored for delete)",
+          ),
+        buffer: bufferParam,
+        expectedTick: expectedTickParam,
+        format: formatParam,
+        returnBuffer: returnBufferParam,
+        instance: instanceParam,
+      },
+      outputSchema: editResultShape,
+    },
+    async ({
+      startLine,
+      endLine,
+      mode,
+      lines,
+      buffer,
+      expectedTick,
+      format,
+      returnBuffer,
+      instance,
+    }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const { lines: before } = await neovimManager.readBuffer(buffer);
+      console.error(
+        `Editing lines: ${startLine}-${endLine ?? startLine}, ${mode}, ${lines}`,
+      );
+      await neovimManager.editLines(
+        startLine,
+        mode,
+        lines,
+        endLine,
+        buffer,
+        expectedTick,
+      );
+      // The edited range after the edit, in which formatting is expected.
+      const [editStart, editEnd] =
+        mode === "replaceAll"
+          ? [1, Infinity]
+          : mode === "delete"
+            ? [startLine - 1, startLine]
+            : [startLine, startLine + lines.split("\n").length - 1];
+      const formatResult = format
+        ? await neovimManager.formatBuffer(editStart, editEnd, buffer)
+        : { status: "skipped" };
+
+      return editResult(neovimManager, before, buffer, returnBuffer, {
+        format: formatResult,
+      });
+    },
+  );
+
+  registerTool(
+    "vim_edit_batch",
+    {
+      description: `Applies several insert, replace and delete operations as one transaction.
+     All line numbers refer to the buffer as it is before the batch, so earlier
+     operations do not shift later ones. If any operation is out of range or
+     overlaps another, nothing is changed. The batch is a single undo step.`,
+      inputSchema: {
+        operations: z
+          .array(
+            z.object({
+              mode: z
+                .enum(["insert", "replace", "delete"])
+                .describe(
+                  "insert before startLine, replace startLine..endLine, or delete startLine..endLine",
+                ),
+              startLine: z
+                .number()
+                .describe(
+                  "The first line the operation applies to (1-indexed)",
+                ),
+              endLine: z
+                .number()
+                .optional()
+                .describe(
+                  "The last line (1-indexed, inclusive) to replace or delete. Defaults to the number of new lines for replace and startLine for delete",
+                ),
+              lines: z
+                .string()
+                .optional()
+                .describe(
+                  "The text content to insert or use as replacement (ignored for delete)",
+                ),
+            }),
+          )
+          .min(1),
+        buffer: bufferParam,
+        expectedTick: expectedTickParam,
+        returnBuffer: returnBufferParam,
+        instance: instanceParam,
+      },
+      outputSchema: editResultShape,
+    },
+    async ({ operations, buffer, expectedTick, returnBuffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const { lines: before } = await neovimManager.readBuffer(buffer);
+      console.error(`Editing batch: ${JSON.stringify(operations)}`);
+      await neovimManager.editBatch(operations, buffer, expectedTick);
+      return editResult(neovimManager, before, buffer, returnBuffer);
+    },
+  );
+
+  registerTool(
+    "vim_replace_text",
+    {
+      description: `Replaces a piece of text in the buffer, located by its content instead of
+     line numbers. oldText must match exactly once unless occurrence picks one of
+     several matches. The change is applied as a single undo step.`,
+      inputSchema: {
+        oldText: z
+          .string()
+          .describe(
+            "The exact text to replace, may span multiple lines. Include enough surrounding text to make it unique",
+          ),
+        newText: z
+          .string()
+          .describe("The replacement text, may span multiple lines"),
+        occurrence: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "Which match to replace (1-indexed) when oldText occurs more than once",
+          ),
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+      outputSchema: replaceTextShape,
+    },
+    async ({ oldText, newText, occurrence, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Replacing text: ${oldText} -> ${newText}`);
+      const { startLine, endLine, matches } = await neovimManager.replaceText(
+        oldText,
+        newText,
+        occurrence,
+        buffer,
+      );
+
+      const { lines, state } = await neovimManager.readBuffer(buffer);
+      const affected = lines
+        .slice(startLine - 1, endLine)
+        .map((line, index) => `${startLine + index}: ${line}`)
+        .join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Replaced occurrence ${occurrence ?? 1} of ${matches} at lines ${startLine}-${endLine}:\n${affected}`,
+          },
+          {
+            type: "text",
+            text: JSON.stringify(state),
+          },
+        ],
+        structuredContent: { ...state, startLine, endLine, matches },
+      };
+    },
+  );
+
+  registerTool(
+    "vim_apply_patch",
+    {
+      description: `Applies a unified diff to the buffers of the files it touches. Files that
+     are not open are loaded into hidden buffers. Hunks are located by their
+     context, so small line offsets and whitespace differences are tolerated.
+     Returns which hunks applied; each file's changes can be undone with one u.`,
+      inputSchema: {
+        patch: z
+          .string()
+          .describe(
+            "Unified diff with ---/+++ file headers and @@ hunks; may cover several files. Paths are relative to the nvim working directory",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ patch, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Applying patch:\n${patch}`);
+      const results = await neovimManager.applyPatch(patch);
+      if (results.some(({ hunks }) => hunks.some(({ applied }) => !applied))) {
+        throw new PatchError(results);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(results, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_diagnostics",
+    {
+      description: `Returns the errors, warnings and hints nvim has for a buffer (from language
+     servers, linters, ...) via vim.diagnostic. Use after editing to check what
+     needs fixing.`,
+      inputSchema: {
+        buffer: bufferParam,
+        workspace: z
+          .boolean()
+          .default(false)
+          .describe("Return diagnostics for all buffers instead of one"),
+        instance: instanceParam,
+      },
+    },
+    async ({ buffer, workspace, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const diagnostics = await neovimManager.getDiagnostics(buffer, workspace);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              diagnostics.length > 0
+                ? JSON.stringify(diagnostics, null, 2)
+                : "No diagnostics",
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_definition",
+    {
+      description: `Finds where the symbol at a position is defined, using the language server
+     attached to the buffer. Returns file paths with line ranges and snippets.`,
+      inputSchema: positionParams,
+    },
+    async ({ line, column, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const locations = await neovimManager.lspLocations(
+        "definition",
+        line,
+        column,
+        buffer,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(locations, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_references",
+    {
+      description: `Finds all references to the symbol at a position, using the language server
+     attached to the buffer. Returns file paths with line ranges and snippets.`,
+      inputSchema: positionParams,
+    },
+    async ({ line, column, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const locations = await neovimManager.lspLocations(
+        "references",
+        line,
+        column,
+        buffer,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(locations, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_hover",
+    {
+      description: `Returns the hover documentation (type signature, docs) for the symbol at a
+     position from the language server attached to the buffer.`,
+      inputSchema: positionParams,
+    },
+    async ({ line, column, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const hovers = await neovimManager.lspHover(line, column, buffer);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              hovers.length > 0
+                ? hovers.map((hover) => hover.contents).join("\n\n")
+                : "No hover information",
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_document_symbols",
+    {
+      description: `Lists the symbols (classes, functions, methods, ...) the language server
+     reports for a buffer, with nested names like MyClass.myMethod and line
+     ranges.`,
+      inputSchema: {
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const symbols = await neovimManager.lspDocumentSymbols(buffer);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(symbols, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_workspace_symbols",
+    {
+      description: `Searches symbols across the project by name with workspace/symbol, using
+     the language server attached to the buffer.`,
+      inputSchema: {
+        query: z.string().describe("Symbol name or fragment to search for"),
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ query, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const symbols = await neovimManager.lspWorkspaceSymbols(query, buffer);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(symbols, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_rename",
+    {
+      description: `Renames the symbol at a position across the project using the language
+     server. Without apply, only previews the edit as per-file diffs; with apply,
+     the edit is applied to buffers (left unsaved, undoable with u).`,
+      inputSchema: {
+        ...positionParams,
+        newName: z.string().describe("The new name for the symbol"),
+        apply: z
+          .boolean()
+          .default(false)
+          .describe("Apply the rename instead of only previewing it"),
+      },
+    },
+    async ({ line, column, newName, apply, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.lspRename(
+        newName,
+        line,
+        column,
+        apply,
+        buffer,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_lsp_code_actions",
+    {
+      description: `Lists the code actions (quick fixes, refactorings) the language server
+     offers at a position or range. Pass action to preview one as per-file
+     diffs, and apply to apply its edit and run its command.`,
+      inputSchema: {
+        ...positionParams,
+        endLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("End line of the range (1-indexed). Defaults to line"),
+        endColumn: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("End column of the range (0-indexed). Defaults to column"),
+        action: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Index of the action, as listed, to preview or apply"),
+        apply: z
+          .boolean()
+          .default(false)
+          .describe("Apply the chosen action instead of only previewing it"),
+      },
+    },
+    async ({
+      line,
+      column,
+      endLine,
+      endColumn,
+      action,
+      apply,
+      buffer,
+      instance,
+    }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.lspCodeActions(
+        {
+          startLine: line,
+          startColumn: column,
+          endLine: endLine ?? line,
+          endColumn: endColumn ?? column,
+        },
+        action,
+        apply,
+        buffer,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_treesitter_outline",
+    {
+      description: `Lists the functions, classes, methods, ... of a buffer with their line
+     ranges, using its treesitter parser. Nested symbols have dotted names such
+     as MyClass.myMethod. Works without a language server.`,
+      inputSchema: {
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const symbols = await neovimManager.treesitterOutline(buffer);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(symbols, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_treesitter_node",
+    {
+      description: `Returns the treesitter node at a position with its range and text. With
+     type, returns the nearest enclosing node whose type contains it instead,
+     e.g. "function" for the body of the function around the cursor.`,
+      inputSchema: {
+        line: z
+          .number()
+          .int()
+          .min(1)
+          .describe("Line of the position (1-indexed)"),
+        column: z
+          .number()
+          .int()
+          .min(0)
+          .default(0)
+          .describe("Column of the position (0-indexed byte offset)"),
+        type: z
+          .string()
+          .optional()
+          .describe(
+            'Node type to look for among the ancestors, e.g. "function", "class" or "if_statement"',
+          ),
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ line, column, type, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const node = await neovimManager.treesitterNodeAt(
+        line,
+        column,
+        type,
+        buffer,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(node, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_treesitter_query",
+    {
+      description: `Runs a treesitter query (S-expression syntax, as in queries/*.scm) against
+     a buffer and returns every capture with its range and text, e.g.
+     "(function_declaration name: (identifier) @name)".`,
+      inputSchema: {
+        query: z.string().describe("The treesitter query to run"),
+        startLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Only match nodes from this line on (1-indexed)"),
+        endLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Only match nodes up to this line (1-indexed, inclusive)"),
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ query, startLine, endLine, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const { captures, truncated } = await neovimManager.treesitterQuery(
+        query,
+        startLine,
+        endLine,
+        buffer,
+      );
+      const content: { type: "text"; text: string }[] = [
+        { type: "text", text: JSON.stringify(captures, null, 2) },
+      ];
+      if (truncated) {
+        content.push({
+          type: "text",
+          text: `[Truncated: only the first ${captures.length} captures are returned, narrow the query or use startLine and endLine]`,
+        });
+      }
+      return { content };
+    },
+  );
+
+  registerTool(
+    "vim_replace_node",
+    {
+      description: `Replaces a whole function, method, class, ... found by name in the
+     treesitter outline, e.g. MyClass.myMethod. The node is located when the
+     edit is applied, so it works even if lines moved since the buffer was read.
+     newText replaces the node's full text, from its first to its last character.`,
+      inputSchema: {
+        symbol: z
+          .string()
+          .describe(
+            "Dotted name as listed by vim_treesitter_outline (e.g. MyClass.myMethod), or just the last part if it is unique",
+          ),
+        kind: z
+          .string()
+          .optional()
+          .describe(
+            'Only match symbols of this kind (e.g. "function", "method", "class") or node type (e.g. "function_declaration")',
+          ),
+        newText: z
+          .string()
+          .describe("The full new text of the node, may span multiple lines"),
+        buffer: bufferParam,
+        instance: instanceParam,
+      },
+      outputSchema: replaceNodeShape,
+    },
+    async ({ symbol, kind, newText, buffer, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Replacing node: ${symbol}`);
+      const { name, startLine, endLine } = await neovimManager.replaceNode(
+        symbol,
+        newText,
+        kind,
+        buffer,
+      );
+
+      const { lines, state } = await neovimManager.readBuffer(buffer);
+      const affected = lines
+        .slice(startLine - 1, endLine)
+        .map((line, index) => `${startLine + index}: ${line}`)
+        .join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Replaced ${name} at lines ${startLine}-${endLine}:\n${affected}`,
+          },
+          {
+            type: "text",
+            text: JSON.stringify(state),
+          },
+        ],
+        structuredContent: { ...state, name, startLine, endLine },
+      };
+    },
+  );
+
+  registerTool(
+    "vim_terminal_open",
+    {
+      description: `Runs a command in a :terminal in a new split, so the user can watch it
+     (e.g. a test run). Without command, starts an interactive shell to send
+     input to. Returns the terminal's buffer id for the other terminal tools.
+     Requires ALLOW_SHELL_COMMANDS=true.`,
+      inputSchema: {
+        command: shellCommandParam.optional(),
+        vertical: z
+          .boolean()
+          .default(false)
+          .describe("Open the split to the right instead of at the bottom"),
+        instance: instanceParam,
+      },
+    },
+    async ({ command, vertical, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Opening terminal: ${command ?? "shell"}`);
+      const terminal = await neovimManager.openTerminal(command, vertical);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(terminal, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_terminal_send",
+    {
+      description: `Sends input to the job running in a terminal, e.g. a command for its
+     shell. Requires ALLOW_SHELL_COMMANDS=true.`,
+      inputSchema: {
+        terminal: terminalParam,
+        input: z.string().describe("Text to send to the terminal"),
+        enter: z
+          .boolean()
+          .default(true)
+          .describe("Press enter after the input"),
+        instance: instanceParam,
+      },
+    },
+    async ({ terminal, input, enter, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      await neovimManager.sendToTerminal(terminal, input, enter);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Sent input to terminal ${terminal}`,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_terminal_read",
+    {
+      description: `Reads the output of a terminal. By default continues where the previous
+     read stopped, so repeated calls return only new output. Also reports
+     whether the job is still running and its exit code.`,
+      inputSchema: {
+        terminal: terminalParam,
+        fromLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "Line to read from (1-indexed), e.g. 1 to read everything again",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ terminal, fromLine, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const output = await neovimManager.readTerminal(terminal, fromLine);
+      const status = output.running
+        ? "running"
+        : `exited with code ${output.exitCode ?? "unknown"}`;
+      const header =
+        output.lines.length === 0
+          ? `[No new output from line ${output.startLine}, job ${status}]`
+          : `[Lines ${output.startLine}-${output.nextLine - 1}, job ${status}]`;
+      const footer =
+        output.remaining > 0
+          ? `\n[${output.remaining} more lines, read again from line ${output.nextLine}]`
+          : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${header}\n${output.lines.join("\n")}${footer}`,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_terminal_wait",
+    {
+      description: `Waits for the job in a terminal to exit and returns its exit code, or
+     reports that it is still running after the timeout. Use vim_terminal_read
+     afterwards to get the output.`,
+      inputSchema: {
+        terminal: terminalParam,
+        timeout: z
+          .number()
+          .int()
+          .min(0)
+          .max(600)
+          .default(30)
+          .describe("Seconds to wait at most"),
+        instance: instanceParam,
+      },
+    },
+    async ({ terminal, timeout, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const { exited, exitCode } = await neovimManager.waitForTerminal(
+        terminal,
+        timeout * 1000,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: exited
+              ? `Terminal ${terminal} exited with code ${exitCode ?? "unknown"}`
+              : `Terminal ${terminal} is still running after ${timeout}s`,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_job_start",
+    {
+      description: `Starts a shell command in the background, e.g. a build or test run,
+     without blocking nvim. Returns a job id; poll it with vim_job_status and
+     vim_job_output. Requires ALLOW_SHELL_COMMANDS=true.`,
+      inputSchema: {
+        command: shellCommandParam,
+        cwd: z
+          .string()
+          .optional()
+          .describe(
+            "Directory to run in, inside the nvim working directory. Defaults to the nvim working directory",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ command, cwd, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      console.error(`Starting job: ${command}`);
+      const job = await neovimManager.startJob(command, cwd);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(job, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_job_status",
+    {
+      description: `Reports whether jobs started with vim_job_start are still running and
+     their exit codes. Without job, lists all jobs.`,
+      inputSchema: {
+        job: jobParam.optional(),
+        instance: instanceParam,
+      },
+    },
+    async ({ job, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(neovimManager.getJobs(job), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_job_output",
+    {
+      description: `Returns the stdout and stderr of a job that have not been read yet, so
+     repeated calls only return new output, along with its status.`,
+      inputSchema: {
+        job: jobParam,
+        fromStart: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Return all output that is still kept instead of only new output",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ job, fromStart, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const output = neovimManager.getJobOutput(job, fromStart);
+      const status = output.running
+        ? `running for ${output.runtime}s`
+        : `exited with code ${output.exitCode} after ${output.runtime}s`;
+      const section = (name: string, chunk: typeof output.stdout) =>
+        [
+          chunk.skipped > 0
+            ? `[${name}: ${chunk.skipped} characters dropped, output limit reached]`
+            : `[${name}]`,
+          chunk.text,
+          ...(chunk.remaining > 0
+            ? [`[${chunk.remaining} more characters, call again to read them]`]
+            : []),
+        ].join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `[Job ${output.id} ${status}]`,
+              section("stdout", output.stdout),
+              section("stderr", output.stderr),
+            ].join("\n"),
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_job_kill",
+    {
+      description: "Stops a running job started with vim_job_start",
+      inputSchema: {
+        job: jobParam,
+        instance: instanceParam,
+      },
+    },
+    async ({ job, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const status = await neovimManager.killJob(job);
+      return {
+        content: [
+          {
+            type: "text",
+            text: status.running
+              ? `Stopping job ${job}`
+              : `Job ${job} already exited with code ${status.exitCode}`,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_window",
+    {
+      description:
+        "Allows to manipulate windows such as creating, splitting or closing windows. Returns the windows afterwards",
+      inputSchema: {
+        command: z.enum(WINDOW_COMMANDS).describe(
+          `Window manipulation command: split or vsplit to create new window, only 
+          to keep just current window, close to close current window, or wincmd with
+          h/j/k/l to navigate between windows`,
+        ),
+        instance: instanceParam,
+      },
+      outputSchema: windowsShape,
+    },
+    async ({ command, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.manipulateWindow(command);
+      const windows = await neovimManager.getWindows();
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+          {
+            type: "text",
+            text: JSON.stringify(windows),
+          },
+        ],
+        structuredContent: { windows },
+      };
+    },
+  );
+
+  registerTool(
+    "vim_mark",
+    {
+      inputSchema: {
+        mark: z
+          .string()
+          .regex(/^[a-z]$/)
+          .describe("Single lowercase letter [a-z] to use as the mark name"),
+        line: z
+          .number()
+          .describe(
+            "The line number where the mark should be placed (1-indexed)",
+          ),
+        column: z
+          .number()
+          .describe(
+            "The column number where the mark should be placed (0-indexed)",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ mark, line, column, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.setMark(mark, line, column);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_register",
+    {
+      inputSchema: {
+        register: z
+          .string()
+          .regex(/^[a-z\"]$/)
+          .describe(
+            'Register name - a lowercase letter [a-z] or double-quote ["] for the unnamed register',
+          ),
+        content: z
+          .string()
+          .describe("The text content to store in the specified register"),
+        instance: instanceParam,
+      },
+    },
+    async ({ register, content, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.setRegister(register, content);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  registerTool(
+    "vim_visual",
+    {
+      inputSchema: {
+        startLine: z
+          .number()
+          .describe(
+            "The starting line number for visual selection (1-indexed)",
+          ),
+        startColumn: z
+          .number()
+          .describe(
+            "The starting column number for visual selection (0-indexed)",
+          ),
+        endLine: z
+          .number()
+          .describe("The ending line number for visual selection (1-indexed)"),
+        endColumn: z
+          .number()
+          .describe(
+            "The ending column number for visual selection (0-indexed)",
+          ),
+        instance: instanceParam,
+      },
+    },
+    async ({ startLine, startColumn, endLine, endColumn, instance }) => {
+      const neovimManager = await NeovimManager.resolve(instance);
+      const result = await neovimManager.visualSelect(
+        startLine,
+        startColumn,
+        endLine,
+        endColumn,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: result,
+          },
+        ],
+      };
+    },
+  );
+
+  // Register an empty prompts list since we don't support any prompts.
+  // Clients still ask.
+  server.prompt("empty", {}, () => ({
+    messages: [],
+  }));
+
+  return server;
+}
+
+/**
+ * Forwards changes in the default instance to the change listeners of all
+ * connected clients. Without a running nvim the watch is installed on the
+ * first connection.
+ */
+export async function watchEditorChanges(): Promise<void> {
+  await NeovimManager.getInstance().watchChanges((change) => {
+    for (const listener of changeListeners) {
+      listener(change);
+    }
+  });
+}
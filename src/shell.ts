@@ -0,0 +1,179 @@
+import { accessSync, constants, statSync } from "node:fs";
+import { basename, delimiter, join, resolve } from "node:path";
+
+// Characters that only mean something to a shell. Commands are run without
+// one, so these are rejected rather than passed on as literal arguments.
+const SHELL_OPERATORS = new Set(["|", "&", ";", "<", ">", "(", ")", "`", "$"]);
+
+interface ShellPolicy {
+  // Paths of the executables that may run; null allows all that are not
+  // denied.
+  allow: Set<string> | null;
+  // Names or paths of executables that may not run.
+  deny: Set<string>;
+}
+
+let policy: ShellPolicy | null = null;
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Finds an executable on the server's PATH, like a shell would. Names with a
+ * slash are resolved as paths instead.
+ */
+function findExecutable(name: string): string | null {
+  const candidates = name.includes("/")
+    ? [resolve(name)]
+    : (process.env.PATH ?? "")
+        .split(delimiter)
+        .filter((dir) => dir !== "")
+        .map((dir) => join(dir, name));
+  for (const candidate of candidates) {
+    try {
+      accessSync(candidate, constants.X_OK);
+      if (statSync(candidate).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not executable here; try the next directory.
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads NVIM_SHELL_ALLOW and NVIM_SHELL_DENY, comma-separated lists of
+ * executable names such as `npm,git` or paths. Allowed names are resolved
+ * against the server's PATH once, so executables created later do not
+ * shadow them. Without an allowlist every executable that is not denied may
+ * run.
+ */
+function loadPolicy(): ShellPolicy {
+  const allow = splitList(process.env.NVIM_SHELL_ALLOW);
+  const paths = new Set<string>();
+  for (const name of allow) {
+    const path = findExecutable(name);
+    if (path) {
+      paths.add(path);
+    } else {
+      console.error(`NVIM_SHELL_ALLOW: ${name} is not on the PATH`);
+    }
+  }
+  return {
+    allow: allow.length > 0 ? paths : null,
+    deny: new Set(splitList(process.env.NVIM_SHELL_DENY)),
+  };
+}
+
+/**
+ * Whether NVIM_SHELL_ALLOW or NVIM_SHELL_DENY restricts the executables.
+ */
+export function hasCommandLists(): boolean {
+  policy ??= loadPolicy();
+  return policy.allow !== null || policy.deny.size > 0;
+}
+
+/**
+ * Splits a command line into arguments like a POSIX shell would for simple
+ * commands: whitespace separates words, single quotes are literal, a
+ * backslash escapes any character outside quotes but only `$`, `` ` ``,
+ * `"`, `\` and newline inside double quotes. Pipes, redirections, `;`, `&&` and
+ * substitutions are rejected, since no shell runs the command.
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current: string | null = null;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === "\\" && i + 1 < command.length) {
+        // A backslash-newline is a line continuation; before characters
+        // other than these the backslash stays, so "a\b" is a\b.
+        const next = command[i + 1];
+        if (next === "\n") {
+          i++;
+        } else if ('$`"\\'.includes(next)) {
+          current += command[++i];
+        } else {
+          current += char;
+        }
+      } else if (char === "$" || char === "`") {
+        throw new Error(
+          `"${char}" substitutions are not supported; pass the value literally`,
+        );
+      } else {
+        current += char;
+      }
+    } else if (/\s/.test(char)) {
+      if (current !== null) {
+        args.push(current);
+        current = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      current ??= "";
+    } else if (char === "\\" && i + 1 < command.length) {
+      current = (current ?? "") + command[++i];
+    } else if (SHELL_OPERATORS.has(char)) {
+      throw new Error(
+        `"${char}" is a shell operator, but commands run without a shell; quote it to pass it as an argument`,
+      );
+    } else {
+      current = (current ?? "") + char;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in command`);
+  }
+  if (current !== null) {
+    args.push(current);
+  }
+  if (args.length === 0) {
+    throw new Error("Command is empty");
+  }
+  return args;
+}
+
+/**
+ * Returns why the allow/denylist rejects running `argv`, or null if it may
+ * run. `executable` is the file argv[0] runs, as nvim resolves it on its
+ * PATH; an allowlist only passes the files its entries resolve to, so
+ * neither `./git` nor a `git` placed earlier on the PATH counts as `git`.
+ * The denylist matches the name and path of argv[0] only: wrappers that run
+ * another command, such as `env rm`, `sh -c` or `xargs rm`, get past it.
+ */
+export function commandRejection(
+  argv: string[],
+  executable: string,
+): string | null {
+  policy ??= loadPolicy();
+  const { allow, deny } = policy;
+  const denied = [basename(argv[0]), executable, basename(executable)].find(
+    (entry) => deny.has(entry),
+  );
+  if (denied) {
+    return `${denied} is denied by NVIM_SHELL_DENY`;
+  }
+  if (allow && !allow.has(executable)) {
+    const resolved =
+      executable === argv[0] ? "" : ` (${executable || "not found"})`;
+    return `${argv[0]}${resolved} is not in NVIM_SHELL_ALLOW (allowed: ${Array.from(allow).join(", ")})`;
+  }
+  return null;
+}
@@ -0,0 +1,407 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  currentLines,
+  errorText,
+  nvimMissing,
+  resetBuffer,
+  Session,
+  startSession,
+  texts,
+} from "./helpers.js";
+
+describe("buffer tools", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession();
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  beforeEach(async () => {
+    await resetBuffer(session.nvim, ["one", "two", "three", "four"]);
+  });
+
+  const edit = (args: Record<string, unknown>) =>
+    session.text("vim_edit", { format: false, ...args });
+
+  describe("vim_buffer", () => {
+    it("returns numbered lines and the buffer state", async () => {
+      const result = await session.call("vim_buffer");
+      const [page, json] = texts(result);
+      assert.equal(page, "[Lines 1-4 of 4]\n1: one\n2: two\n3: three\n4: four");
+      const state = JSON.parse(json);
+      assert.equal(state.lineCount, 4);
+      assert.equal(typeof state.changedtick, "number");
+      assert.deepEqual(result.structuredContent, {
+        ...state,
+        startLine: 1,
+        lines: ["one", "two", "three", "four"],
+      });
+    });
+
+    it("pages with startLine and endLine", async () => {
+      const text = await session.text("vim_buffer", {
+        startLine: 2,
+        endLine: 3,
+      });
+      assert.match(text, /^\[Lines 2-3 of 4\]\n2: two\n3: three\n\[Truncated/);
+    });
+
+    it("rejects an endLine before startLine", async () => {
+      const result = await session.call("vim_buffer", {
+        startLine: 3,
+        endLine: 2,
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "invalid-range");
+    });
+
+    it("reports unknown buffers", async () => {
+      const result = await session.call("vim_buffer", { buffer: 9999 });
+      assert.deepEqual(JSON.parse(errorText(result)), {
+        error: "buffer-not-found",
+        message: "No buffer found for 9999",
+        target: 9999,
+      });
+    });
+  });
+
+  describe("vim_edit", () => {
+    it("replaces as many lines as the new text has without endLine", async () => {
+      await edit({ startLine: 2, mode: "replace", lines: "TWO" });
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "TWO",
+        "three",
+        "four",
+      ]);
+    });
+
+    it("replaces exactly startLine..endLine with endLine", async () => {
+      await edit({ startLine: 2, endLine: 3, mode: "replace", lines: "X" });
+      assert.deepEqual(await currentLines(session.nvim), ["one", "X", "four"]);
+    });
+
+    it("inserts before startLine and appends after the last line", async () => {
+      await edit({ startLine: 1, mode: "insert", lines: "zero" });
+      await edit({ startLine: 6, mode: "insert", lines: "five\nsix" });
+      assert.deepEqual(await currentLines(session.nvim), [
+        "zero",
+        "one",
+        "two",
+        "three",
+        "four",
+        "five",
+        "six",
+      ]);
+    });
+
+    it("deletes startLine..endLine", async () => {
+      await edit({ startLine: 2, endLine: 3, mode: "delete" });
+      assert.deepEqual(await currentLines(session.nvim), ["one", "four"]);
+    });
+
+    it("replaces the whole buffer", async () => {
+      await edit({ startLine: 1, mode: "replaceAll", lines: "a\nb" });
+      assert.deepEqual(await currentLines(session.nvim), ["a", "b"]);
+    });
+
+    it("returns a diff of the change", async () => {
+      const result = await session.call("vim_edit", {
+        startLine: 1,
+        mode: "replace",
+        lines: "ONE",
+        format: false,
+      });
+      const [diff] = texts(result);
+      assert.match(diff, /^-1: one$/m);
+      assert.match(diff, /^\+1: ONE$/m);
+      assert.equal(result.structuredContent?.diff, diff);
+      assert.equal(result.structuredContent?.lineCount, 4);
+      assert.deepEqual(result.structuredContent?.format, { status: "skipped" });
+    });
+
+    it("rejects lines outside the buffer", async () => {
+      const result = await session.call("vim_edit", {
+        startLine: 6,
+        mode: "replace",
+        lines: "x",
+        format: false,
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "invalid-range");
+      assert.match(error.message, /startLine 6 is outside the buffer/);
+
+      const reversed = await session.call("vim_edit", {
+        startLine: 3,
+        endLine: 2,
+        mode: "delete",
+        format: false,
+      });
+      assert.match(errorText(reversed), /endLine 2 must be between/);
+      assert.equal((await currentLines(session.nvim)).length, 4);
+    });
+
+    it("rejects a stale expectedTick with a conflict", async () => {
+      const [, json] = texts(await session.call("vim_buffer"));
+      const { changedtick } = JSON.parse(json);
+      const buffer = await session.nvim.buffer;
+      await buffer.setLines(["TWO"], { start: 1, end: 2 });
+
+      const conflict = await session.call("vim_edit", {
+        startLine: 2,
+        mode: "replace",
+        lines: "two again",
+        expectedTick: changedtick,
+        format: false,
+      });
+      const error = JSON.parse(errorText(conflict));
+      assert.equal(error.error, "conflict");
+      assert.equal(error.expectedTick, changedtick);
+      assert.match(error.diff, /^-two$/m);
+      assert.match(error.diff, /^\+TWO$/m);
+      assert.match(error.current, /2: TWO/);
+      assert.equal((await currentLines(session.nvim))[1], "TWO");
+    });
+  });
+
+  describe("vim_edit_batch", () => {
+    it("applies operations against the original line numbers", async () => {
+      await session.text("vim_edit_batch", {
+        operations: [
+          { mode: "insert", startLine: 1, lines: "zero" },
+          { mode: "replace", startLine: 2, lines: "TWO" },
+          { mode: "delete", startLine: 4 },
+        ],
+      });
+      assert.deepEqual(await currentLines(session.nvim), [
+        "zero",
+        "one",
+        "TWO",
+        "three",
+      ]);
+    });
+
+    it("changes nothing when operations overlap", async () => {
+      const result = await session.call("vim_edit_batch", {
+        operations: [
+          { mode: "replace", startLine: 1, endLine: 2, lines: "x" },
+          { mode: "delete", startLine: 2 },
+        ],
+      });
+      assert.match(errorText(result), /overlap/);
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "two",
+        "three",
+        "four",
+      ]);
+    });
+
+    it("rejects a stale expectedTick without writing", async () => {
+      const { changedtick } = JSON.parse(
+        texts(await session.call("vim_buffer"))[1],
+      );
+      const buffer = await session.nvim.buffer;
+      await buffer.setLines(["ONE"], { start: 0, end: 1 });
+
+      const result = await session.call("vim_edit_batch", {
+        operations: [{ mode: "delete", startLine: 4 }],
+        expectedTick: changedtick,
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "conflict");
+      assert.match(error.diff, /^-one$/m);
+      assert.match(error.diff, /^\+ONE$/m);
+      assert.deepEqual(await currentLines(session.nvim), [
+        "ONE",
+        "two",
+        "three",
+        "four",
+      ]);
+    });
+
+    it("changes nothing when operations start on the same line", async () => {
+      const result = await session.call("vim_edit_batch", {
+        operations: [
+          { mode: "replace", startLine: 3, endLine: 4, lines: "x" },
+          { mode: "delete", startLine: 3 },
+        ],
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "invalid-range");
+      assert.match(error.message, /Operation 2 \(delete\): .* overlap/);
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "two",
+        "three",
+        "four",
+      ]);
+    });
+  });
+
+  describe("vim_insert_multiple", () => {
+    it("inserts at the original line numbers", async () => {
+      await session.text("vim_insert_multiple", {
+        actions: [
+          { startLine: 2, content: "after one" },
+          { startLine: 4, content: "after three" },
+        ],
+        format: false,
+      });
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "after one",
+        "two",
+        "three",
+        "after three",
+        "four",
+      ]);
+    });
+  });
+
+  describe("vim_replace_text", () => {
+    it("replaces a unique match across lines", async () => {
+      const text = await session.text("vim_replace_text", {
+        oldText: "o\nthr",
+        newText: "O\nTHR",
+      });
+      assert.match(text, /^Replaced occurrence 1 of 1 at lines 2-3/);
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "twO",
+        "THRee",
+        "four",
+      ]);
+    });
+
+    it("requires occurrence for ambiguous matches", async () => {
+      const result = await session.call("vim_replace_text", {
+        oldText: "o",
+        newText: "0",
+      });
+      assert.match(errorText(result), /matches/);
+
+      await session.text("vim_replace_text", {
+        oldText: "o",
+        newText: "0",
+        occurrence: 2,
+      });
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "tw0",
+        "three",
+        "four",
+      ]);
+    });
+
+    it("reports text that is not in the buffer", async () => {
+      const result = await session.call("vim_replace_text", {
+        oldText: "five",
+        newText: "5",
+      });
+      assert.match(errorText(result), /not found/);
+    });
+  });
+
+  describe("files", () => {
+    it("opens a file relative to the working directory", async () => {
+      writeFileSync(join(session.dir, "notes.txt"), "first\nsecond\n");
+      const [page] = texts(
+        await session.call("vim_open", { path: "notes.txt" }),
+      );
+      assert.equal(page, "[Lines 1-2 of 2]\n1: first\n2: second");
+      const buffer = await session.nvim.buffer;
+      assert.equal(await buffer.name, join(session.dir, "notes.txt"));
+    });
+
+    it("edits another buffer by path without switching to it", async () => {
+      writeFileSync(join(session.dir, "other.txt"), "alpha\nbeta\n");
+      await session.nvim.command("badd other.txt");
+      await session.text("vim_edit", {
+        startLine: 2,
+        mode: "replace",
+        lines: "BETA",
+        buffer: "other.txt",
+        format: false,
+      });
+
+      const text = await session.text("vim_buffer", { buffer: "other.txt" });
+      assert.match(text, /1: alpha\n2: BETA/);
+      assert.deepEqual(await currentLines(session.nvim), [
+        "one",
+        "two",
+        "three",
+        "four",
+      ]);
+    });
+
+    it("applies a unified diff to a file", async () => {
+      writeFileSync(join(session.dir, "patched.txt"), "a\nb\nc\n");
+      const text = await session.text("vim_apply_patch", {
+        patch: [
+          "--- a/patched.txt",
+          "+++ b/patched.txt",
+          "@@ -1,3 +1,3 @@",
+          " a",
+          "-b",
+          "+B",
+          " c",
+          "",
+        ].join("\n"),
+      });
+      const [file] = JSON.parse(text);
+      assert.equal(file.hunks[0].applied, true);
+
+      const contents = await session.text("vim_buffer", {
+        buffer: "patched.txt",
+      });
+      assert.match(contents, /1: a\n2: B\n3: c/);
+    });
+
+    it("reports hunks that do not apply as patch-failed", async () => {
+      writeFileSync(join(session.dir, "partial.txt"), "a\nb\nc\n");
+      const result = await session.call("vim_apply_patch", {
+        patch: [
+          "--- a/partial.txt",
+          "+++ b/partial.txt",
+          "@@ -1,3 +1,3 @@",
+          " a",
+          "-b",
+          "+B",
+          " c",
+          "@@ -10,3 +10,3 @@",
+          " x",
+          "-y",
+          "+Y",
+          " z",
+          "",
+        ].join("\n"),
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "patch-failed");
+      assert.equal(error.message, "1 of 2 hunk(s) did not apply");
+      assert.deepEqual(
+        error.files[0].hunks.map(
+          ({ applied }: { applied: boolean }) => applied,
+        ),
+        [true, false],
+      );
+    });
+
+    it("rejects a patch without file headers", async () => {
+      const result = await session.call("vim_apply_patch", {
+        patch: "just some text\n",
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "invalid-argument");
+      assert.match(error.message, /No file headers/);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { unifiedDiff } from "../src/diff.js";
+
+describe("unifiedDiff", () => {
+  it("is empty for identical texts", () => {
+    assert.equal(unifiedDiff(["a", "b"], ["a", "b"]), "");
+  });
+
+  it("renders a hunk with three lines of context", () => {
+    const old = ["1", "2", "3", "4", "5", "6", "7", "8"];
+    const changed = ["1", "2", "3", "4", "FIVE", "6", "7", "8"];
+    assert.equal(
+      unifiedDiff(old, changed),
+      [
+        "--- a",
+        "+++ b",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+FIVE",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...old];
+    changed[1] = "second";
+    changed[17] = "eighteenth";
+    const diff = unifiedDiff(old, changed, { context: 1 });
+    assert.deepEqual(diff.match(/^@@ .* @@$/gm), [
+      "@@ -1,3 +1,3 @@",
+      "@@ -17,3 +17,3 @@",
+    ]);
+  });
+
+  it("points empty ranges at the line before them", () => {
+    assert.match(
+      unifiedDiff(["a", "b"], ["a", "x", "b"], { context: 0 }),
+      /^@@ -1,0 \+2 @@$/m,
+    );
+  });
+
+  it("numbers lines by the new text, and removed lines by the old", () => {
+    const diff = unifiedDiff(["a", "b", "c"], ["a", "c", "d"], {
+      oldName: "file",
+      newName: "file",
+      numbered: true,
+    });
+    assert.equal(
+      diff,
+      [
+        "--- file",
+        "+++ file",
+        "@@ -1,3 +1,3 @@",
+        " 1: a",
+        "-2: b",
+        " 2: c",
+        "+3: d",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  errorText,
+  nvimMissing,
+  resetBuffer,
+  Session,
+  startSession,
+} from "./helpers.js";
+
+describe("editor tools", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession({ ALLOW_SHELL_COMMANDS: "false" });
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  beforeEach(async () => {
+    await resetBuffer(session.nvim, ["first line", "second line", "third"]);
+  });
+
+  it("registers every tool", async () => {
+    const { tools } = await session.client.listTools();
+    const names = tools.map(({ name }) => name);
+    for (const name of [
+      "vim_buffer",
+      "vim_open",
+      "vim_command",
+      "vim_status",
+      "vim_buffers",
+      "vim_edit",
+      "vim_edit_batch",
+      "vim_replace_text",
+      "vim_apply_patch",
+      "vim_diagnostics",
+      "vim_lsp_hover",
+      "vim_treesitter_outline",
+      "vim_terminal_open",
+      "vim_job_start",
+      "vim_window",
+      "vim_mark",
+      "vim_register",
+      "vim_visual",
+    ]) {
+      assert.ok(names.includes(name), `${name} is not registered`);
+    }
+  });
+
+  describe("vim_mark", () => {
+    it("sets the mark without moving the cursor", async () => {
+      const text = await session.text("vim_mark", {
+        mark: "a",
+        line: 2,
+        column: 3,
+      });
+      assert.equal(text, "Mark a set at line 2, column 3");
+
+      const buffer = await session.nvim.buffer;
+      const mark = await session.nvim.request("nvim_buf_get_mark", [
+        buffer,
+        "a",
+      ]);
+      assert.deepEqual(mark, [2, 3]);
+      const window = await session.nvim.window;
+      assert.deepEqual(await window.cursor, [1, 0]);
+    });
+
+    it("rejects invalid mark names", async () => {
+      await assert.rejects(
+        session.call("vim_mark", { mark: "A", line: 1, column: 0 }),
+        /Invalid arguments for tool vim_mark/,
+      );
+    });
+  });
+
+  describe("vim_register", () => {
+    it("sets named and unnamed registers", async () => {
+      await session.text("vim_register", { register: "q", content: "it's" });
+      await session.text("vim_register", { register: '"', content: "yank" });
+      assert.equal(await session.nvim.call("getreg", ["q"]), "it's");
+      assert.equal(await session.nvim.call("getreg", ['"']), "yank");
+    });
+
+    it("is reported by vim_status", async () => {
+      await session.text("vim_register", { register: "b", content: "beta" });
+      const status = JSON.parse(await session.text("vim_status"));
+      assert.equal(status.registers.b, "beta");
+    });
+  });
+
+  describe("vim_window", () => {
+    it("splits and closes windows", async () => {
+      await session.text("vim_window", { command: "split" });
+      const { structuredContent } = await session.call("vim_window", {
+        command: "vsplit",
+      });
+      assert.equal((await session.nvim.windows).length, 3);
+      const { windows } = structuredContent as { windows: { id: number }[] };
+      assert.deepEqual(
+        windows.map(({ id }) => id).sort(),
+        (await session.nvim.windows).map(({ id }) => id).sort(),
+      );
+
+      await session.text("vim_window", { command: "close" });
+      assert.equal((await session.nvim.windows).length, 2);
+      await session.text("vim_window", { command: "only" });
+      assert.equal((await session.nvim.windows).length, 1);
+    });
+  });
+
+  describe("vim_visual", () => {
+    it("ends the selection at the end position", async () => {
+      const text = await session.text("vim_visual", {
+        startLine: 1,
+        startColumn: 0,
+        endLine: 2,
+        endColumn: 5,
+      });
+      assert.equal(text, "Visual selection made");
+      const window = await session.nvim.window;
+      assert.deepEqual(await window.cursor, [2, 5]);
+    });
+  });
+
+  describe("vim_buffers", () => {
+    it("lists the open buffers", async () => {
+      const { structuredContent } = await session.call("vim_buffers");
+      const { buffers } = structuredContent as {
+        buffers: { number: number; windowIds: number[] }[];
+      };
+      const buffer = await session.nvim.buffer;
+      const window = await session.nvim.window;
+      const current = buffers.find(({ number }) => number === buffer.id);
+      assert.deepEqual(current?.windowIds, [window.id]);
+    });
+  });
+
+  describe("vim_status", () => {
+    it("reports the cursor, mode and working directory", async () => {
+      const window = await session.nvim.window;
+      await (window.cursor = [3, 2]);
+      const { structuredContent: status } = await session.call("vim_status");
+      assert.deepEqual(status?.cursorPosition, [3, 2]);
+      assert.equal(status?.mode, "n");
+      assert.equal(status?.cwd, session.dir);
+    });
+  });
+
+  describe("vim_command", () => {
+    it("returns the output of Ex commands", async () => {
+      assert.equal(
+        await session.text("vim_command", { command: ':echo "hi"' }),
+        "hi",
+      );
+      assert.equal(await session.text("vim_pwd"), session.dir);
+    });
+
+    it("reports Vim errors with v:errmsg", async () => {
+      const result = await session.call("vim_command", {
+        command: "notacommand",
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "vim-error");
+      assert.match(error.errmsg, /^E492: Not an editor command/);
+    });
+
+    it("refuses shell commands unless enabled", async () => {
+      for (const [name, args] of [
+        ["vim_command", { command: "!ls" }],
+        ["vim_command", { command: "%!sort" }],
+        ["vim_command", { command: "r !ls" }],
+        ["vim_command", { command: 'exe "!ls"' }],
+        ["vim_command", { command: "call system(['ls'])" }],
+        ["vim_job_start", { command: "ls" }],
+      ] as const) {
+        const error = JSON.parse(errorText(await session.call(name, args)));
+        assert.equal(error.error, "shell-command-rejected");
+        assert.match(error.message, /Shell command execution is disabled/);
+      }
+    });
+  });
+
+  describe("language servers", () => {
+    it("reports that no language server is attached", async () => {
+      const result = await session.call("vim_lsp_hover", {
+        line: 1,
+        column: 0,
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "lsp-error");
+      assert.match(error.message, /No language server is attached/);
+    });
+
+    it("returns no diagnostics for a plain buffer", async () => {
+      assert.equal(await session.text("vim_diagnostics"), "No diagnostics");
+    });
+  });
+});
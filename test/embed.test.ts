@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { NeovimManager } from "../src/neovim.js";
+import { createServer } from "../src/server.js";
+import { nvimMissing, texts } from "./helpers.js";
+
+// These suites start no nvim of their own: the server embeds one, since
+// nothing listens on NVIM_SOCKET_PATH.
+describe("embedded nvim", { skip: nvimMissing }, () => {
+  let dir: string;
+  const clients: Client[] = [];
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "mcp-neovim-embed-"));
+  });
+
+  after(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    for (const socket of ["always.sock", "fallback.sock"]) {
+      NeovimManager.getInstance(join(dir, socket)).disconnect();
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Connects a client to a server whose default instance is the unreachable
+  // `socket`, embedding nvim in `mode`.
+  const connect = async (socket: string, mode: string) => {
+    Object.assign(process.env, {
+      NVIM_EMBED: mode,
+      NVIM_SOCKET_PATH: join(dir, socket),
+    });
+    const server = createServer();
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "mcp-neovim-embed-test", version: "0" });
+    await client.connect(clientTransport);
+    clients.push(client);
+    return client;
+  };
+
+  const call = async (
+    client: Client,
+    name: string,
+    args: Record<string, unknown> = {},
+  ) => {
+    const result = (await client.callTool({
+      name,
+      arguments: args,
+    })) as CallToolResult;
+    assert.ok(!result.isError, texts(result).join("\n"));
+    return result;
+  };
+
+  // Replaces the lines of the current buffer and reads them back.
+  const editBuffer = async (client: Client) => {
+    await call(client, "vim_edit", {
+      startLine: 1,
+      mode: "replaceAll",
+      lines: "embedded\nnvim",
+      format: false,
+    });
+    const [page] = texts(await call(client, "vim_buffer"));
+    assert.equal(page, "[Lines 1-2 of 2]\n1: embedded\n2: nvim");
+  };
+
+  it("edits buffers of an embedded nvim with NVIM_EMBED=always", async () => {
+    const client = await connect("always.sock", "always");
+    await editBuffer(client);
+    const { contents } = await client.readResource({
+      uri: "nvim://instances",
+    });
+    const [instance] = JSON.parse(String(contents[0].text));
+    assert.equal(instance.socketPath, join(dir, "always.sock"));
+    assert.equal(instance.embedded, true);
+  });
+
+  it("embeds nvim when nothing listens with NVIM_EMBED=fallback", async () => {
+    await editBuffer(await connect("fallback.sock", "fallback"));
+  });
+});
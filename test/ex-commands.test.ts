@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { commandTarget, parseExCommands, shellRun } from "../src/policy.js";
+
+const parse = (line: string) =>
+  parseExCommands(line).map(({ name, bang, argument }) => [
+    name,
+    bang,
+    argument,
+  ]);
+
+const target = (line: string) => {
+  const [command] = parseExCommands(line);
+  return commandTarget(command);
+};
+
+const shell = (line: string) =>
+  parseExCommands(line).map((command) => shellRun(command));
+
+describe("parseExCommands", () => {
+  it("splits commands and strips modifiers and ranges", () => {
+    assert.deepEqual(parse("silent! keepalt 1,3w! /tmp/x | echo 1"), [
+      ["w", true, "/tmp/x "],
+      ["echo", false, "1"],
+    ]);
+    assert.deepEqual(parse(":'<,'>!sort"), [["!", false, "sort"]]);
+    assert.deepEqual(parse("filter /x/ ls"), [["ls", false, ""]]);
+  });
+
+  it("parses the commands built by :execute and +cmd", () => {
+    assert.deepEqual(parse(`exe "w " . 'out.txt'`), [
+      ["exe", false, `"w " . 'out.txt'`],
+      ["w", false, "out.txt"],
+    ]);
+    assert.deepEqual(parse("edit +w\\ other.txt file.txt"), [
+      ["edit", false, "+w\\ other.txt file.txt"],
+      ["w", false, "other.txt"],
+    ]);
+  });
+});
+
+describe("commandTarget", () => {
+  it("finds the files that commands write, open or change to", () => {
+    assert.deepEqual(target("w"), { file: "%" });
+    assert.deepEqual(target("w ++enc=utf-8 >> log.txt"), { file: "log.txt" });
+    assert.deepEqual(target("wall"), { file: "*" });
+    assert.deepEqual(target("saveas new.txt"), { file: "new.txt" });
+    assert.deepEqual(target("cd"), { file: "~", directory: true });
+    assert.deepEqual(target("redir >> out.log"), { file: "out.log" });
+    assert.deepEqual(target("mksession"), { file: "Session.vim" });
+    assert.equal(target("redir END"), null);
+    assert.equal(target("echo 1"), null);
+  });
+
+  it("denies targets that cannot be checked", () => {
+    for (const line of ["w !cat", "e `echo x`", "mkview", "wshada"]) {
+      const result = target(line);
+      assert.ok(result && "denial" in result, `${line} was allowed`);
+    }
+  });
+});
+
+describe("shellRun", () => {
+  it("finds the shell commands of Ex commands", () => {
+    assert.deepEqual(shell("%!sort -u"), [{ command: "sort -u" }]);
+    assert.deepEqual(shell("r !ls -l"), [{ command: "ls -l" }]);
+    assert.deepEqual(shell("r!ls"), [{ command: "ls" }]);
+    assert.deepEqual(shell("w !wc -l"), [{ command: "wc -l" }]);
+    assert.deepEqual(shell("terminal"), [{ command: null }]);
+    assert.deepEqual(shell("sh"), [{ command: null }]);
+    assert.deepEqual(shell("r file.txt | echo 1"), [null, null]);
+  });
+
+  it("gives a reason for commands that cannot be checked", () => {
+    for (const line of [
+      "!!",
+      "!ls *.txt",
+      "!cat %",
+      "make",
+      "call system('ls')",
+      "lua os.execute('ls')",
+    ]) {
+      const [run] = shell(line);
+      assert.ok(run && "reason" in run, `${line} was not rejected`);
+    }
+  });
+});
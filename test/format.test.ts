@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  currentLines,
+  nvimMissing,
+  resetBuffer,
+  Session,
+  startSession,
+  texts,
+} from "./helpers.js";
+
+// Strips trailing whitespace from the whole buffer, so the report shows
+// whether it changed lines besides the edited ones.
+const STRIP = "%s/\\s\\+$//e";
+
+describe("formatting after edits", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession({
+      NVIM_FORMATTERS: JSON.stringify({ text: STRIP, lua: "NoSuchFormatter" }),
+    });
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  const useFiletype = (filetype: string) =>
+    session.nvim.command(`setlocal filetype=${filetype}`);
+
+  beforeEach(async () => {
+    await resetBuffer(session.nvim, ["one", "two", "three"]);
+  });
+
+  it("runs the formatter of the filetype on the edited lines", async () => {
+    await useFiletype("text");
+    const result = await session.call("vim_edit", {
+      startLine: 2,
+      mode: "replace",
+      lines: "TWO   ",
+    });
+    assert.deepEqual(await currentLines(session.nvim), ["one", "TWO", "three"]);
+    assert.deepEqual(result.structuredContent?.format, {
+      status: "formatted",
+      formatter: STRIP,
+      changedLines: [2, 2],
+      changedOutsideEdit: false,
+    });
+    assert.match(texts(result)[0], /^\+2: TWO$/m);
+  });
+
+  it("reports changes outside the edited range", async () => {
+    await resetBuffer(session.nvim, ["one  ", "two", "three"]);
+    await useFiletype("text");
+    const result = await session.call("vim_edit", {
+      startLine: 3,
+      mode: "replace",
+      lines: "THREE",
+    });
+    assert.deepEqual(await currentLines(session.nvim), ["one", "two", "THREE"]);
+    assert.deepEqual(result.structuredContent?.format, {
+      status: "formatted",
+      formatter: STRIP,
+      changedLines: [1, 1],
+      changedOutsideEdit: true,
+    });
+  });
+
+  it("reports a formatter that left the buffer unchanged", async () => {
+    await useFiletype("text");
+    const result = await session.call("vim_edit", {
+      startLine: 1,
+      mode: "replace",
+      lines: "ONE",
+    });
+    assert.deepEqual(result.structuredContent?.format, {
+      status: "unchanged",
+      formatter: STRIP,
+    });
+  });
+
+  it("skips filetypes without a formatter and reports failures", async () => {
+    const args = { startLine: 1, mode: "replace", lines: "ONE  " };
+    const skipped = await session.call("vim_edit", args);
+    assert.deepEqual(skipped.structuredContent?.format, { status: "skipped" });
+    assert.equal((await currentLines(session.nvim))[0], "ONE  ");
+
+    await useFiletype("lua");
+    const failed = await session.call("vim_edit", args);
+    const report = failed.structuredContent?.format as Record<string, unknown>;
+    assert.ok(!failed.isError);
+    assert.equal(report.status, "failed");
+    assert.equal(report.formatter, "NoSuchFormatter");
+    assert.match(String(report.error), /E492/);
+  });
+});
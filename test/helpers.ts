@@ -0,0 +1,208 @@
+import { ChildProcess, spawn, spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import { createConnection } from "node:net";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { attach, NeovimClient } from "neovim";
+import { NeovimManager } from "../src/neovim.js";
+import { createServer } from "../src/server.js";
+
+const NVIM_BIN = process.env.NVIM_BIN || "nvim";
+// The stub language server, compiled next to this file.
+const LSP_STUB = join(dirname(fileURLToPath(import.meta.url)), "lsp-stub.js");
+
+// The suites are skipped when nvim is not installed, except in CI, where a
+// run that tests nothing must not pass.
+export const nvimMissing =
+  spawnSync(NVIM_BIN, ["--version"]).status === 0
+    ? false
+    : `${NVIM_BIN} not found, set NVIM_BIN`;
+if (nvimMissing && process.env.CI) {
+  throw new Error(`${nvimMissing}; the tests need nvim when CI is set`);
+}
+
+export interface Session {
+  // The MCP client, connected to a server in the same process.
+  client: Client;
+  // A separate connection to nvim for checking its state.
+  nvim: NeovimClient;
+  // A temporary directory that nvim runs in.
+  dir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  // Calls a tool and returns its text, failing if the tool reported an error.
+  text(name: string, args?: Record<string, unknown>): Promise<string>;
+  close(): Promise<void>;
+}
+
+async function waitForSocket(child: ChildProcess, socket: string) {
+  const deadline = Date.now() + 10_000;
+  while (!existsSync(socket)) {
+    if (child.exitCode !== null) {
+      throw new Error(`nvim exited with code ${child.exitCode}`);
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`nvim did not listen on ${socket}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+export interface Nvim {
+  // The temporary directory nvim runs in.
+  dir: string;
+  socket: string;
+  child: ChildProcess;
+  // Stops nvim and removes its directory.
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts `nvim --headless --listen` without any config in a temporary
+ * directory.
+ */
+export async function startNvim(): Promise<Nvim> {
+  // Resolved, since nvim reports paths with symlinks such as /tmp resolved.
+  const dir = realpathSync(mkdtempSync(join(tmpdir(), "mcp-neovim-test-")));
+  const socket = join(dir, "nvim.sock");
+  const child = spawn(
+    NVIM_BIN,
+    ["--headless", "--clean", "-n", "--listen", socket],
+    { cwd: dir, stdio: "ignore" },
+  );
+  await waitForSocket(child, socket);
+  return {
+    dir,
+    socket,
+    child,
+    async stop() {
+      const exited = new Promise((resolve) => child.once("exit", resolve));
+      if (child.exitCode === null) {
+        child.kill();
+        await exited;
+      }
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Starts nvim with startNvim and connects an MCP client to a server
+ * targeting it. `env` is applied before the server is created; options such
+ * as NVIM_POLICY are read once per process, so suites needing different ones
+ * live in separate files.
+ */
+export async function startSession(
+  env: Record<string, string> = {},
+): Promise<Session> {
+  const { dir, socket, stop } = await startNvim();
+
+  Object.assign(process.env, env, { NVIM_SOCKET_PATH: socket });
+  const server = createServer();
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "mcp-neovim-server-test", version: "0" });
+  await client.connect(clientTransport);
+  const connection = createConnection(socket);
+  const nvim = attach({ reader: connection, writer: connection });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  return {
+    client,
+    nvim,
+    dir,
+    call,
+    async text(name, args) {
+      const result = await call(name, args);
+      const text = texts(result).join("\n");
+      if (result.isError) {
+        throw new Error(`${name} failed: ${text}`);
+      }
+      return text;
+    },
+    async close() {
+      await client.close();
+      NeovimManager.getInstance(socket).disconnect();
+      connection.destroy();
+      await stop();
+    },
+  };
+}
+
+/**
+ * Returns the text of each content item of a tool result.
+ */
+export function texts(result: CallToolResult): string[] {
+  return result.content.map((item) => (item.type === "text" ? item.text : ""));
+}
+
+/**
+ * Returns the text of an error result, failing if the tool succeeded.
+ */
+export function errorText(result: CallToolResult): string {
+  if (!result.isError) {
+    throw new Error(`Expected an error, got ${JSON.stringify(result)}`);
+  }
+  return texts(result).join("\n");
+}
+
+/**
+ * Replaces the current buffer with `lines` and returns it to normal mode
+ * with the cursor on the first line, so tests do not depend on each other.
+ */
+export async function resetBuffer(
+  nvim: NeovimClient,
+  lines: string[],
+): Promise<void> {
+  await nvim.call("feedkeys", ["\x1b", "nx"]);
+  await nvim.command("silent! only | silent! %bwipeout!");
+  const buffer = await nvim.buffer;
+  await buffer.setLines(lines, { start: 0, end: -1 });
+  const window = await nvim.window;
+  await (window.cursor = [1, 0]);
+}
+
+export async function currentLines(nvim: NeovimClient): Promise<string[]> {
+  const buffer = await nvim.buffer;
+  return buffer.lines;
+}
+
+/**
+ * Starts the stub language server from lsp-stub.ts for the buffers of
+ * `files` and waits until it is initialized.
+ */
+export async function startLanguageServer(
+  nvim: NeovimClient,
+  root: string,
+  files: string[],
+  encoding = "utf-16",
+): Promise<void> {
+  const initialized = await nvim.lua(
+    `
+    local cmd, root, files, encoding = ...
+    local client_id
+    for _, file in ipairs(files) do
+      client_id = vim.lsp.start({
+        name = "lsp-stub-" .. encoding,
+        cmd = cmd,
+        root_dir = root,
+        offset_encoding = encoding,
+      }, { bufnr = vim.fn.bufnr(file) })
+    end
+    return vim.wait(10000, function()
+      local client = vim.lsp.get_client_by_id(client_id)
+      return client ~= nil and client.initialized == true
+    end)
+    `,
+    [[process.execPath, LSP_STUB, encoding], root, files, encoding],
+  );
+  if (initialized !== true) {
+    throw new Error("The stub language server did not start");
+  }
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { IncomingHttpHeaders, request, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { after, before, describe, it } from "node:test";
+import { startHttpServer } from "../src/http.js";
+import { createServer } from "../src/server.js";
+
+const INDEX = join(dirname(fileURLToPath(import.meta.url)), "../src/index.js");
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "mcp-neovim-server-test", version: "0" },
+  },
+});
+
+describe("HTTP transport", () => {
+  let server: Server;
+  let port: number;
+
+  before(async () => {
+    server = await startHttpServer(createServer, { port: 0, token: "secret" });
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Posts `body` to /mcp and resolves with the response, which the server
+  // may send before it has read the whole body.
+  const post = (
+    headers: Record<string, string>,
+    body: string | Buffer = INITIALIZE,
+  ) =>
+    new Promise<{
+      status?: number;
+      headers: IncomingHttpHeaders;
+      body: string;
+    }>((resolve, reject) => {
+      const req = request(
+        {
+          host: "127.0.0.1",
+          port,
+          path: "/mcp",
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            ...headers,
+          },
+        },
+        (res) => {
+          let data = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk) => (data += chunk));
+          res.on("end", () =>
+            resolve({
+              status: res.statusCode,
+              headers: res.headers,
+              body: data,
+            }),
+          );
+        },
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+
+  it("accepts an initialize request with the bearer token", async () => {
+    const response = await post({ Authorization: "Bearer secret" });
+    assert.equal(response.status, 200);
+    assert.ok(response.headers["mcp-session-id"]);
+  });
+
+  it("rejects a missing or wrong bearer token", async () => {
+    for (const headers of [
+      {} as Record<string, string>,
+      { Authorization: "Bearer wrong" },
+      { Authorization: "Bearer secret2" },
+      { Authorization: "secret" },
+    ]) {
+      const response = await post(headers);
+      assert.equal(response.status, 401);
+      assert.equal(response.headers["www-authenticate"], "Bearer");
+      assert.match(response.body, /Missing or invalid bearer token/);
+    }
+  });
+
+  it("rejects hosts other than localhost", async () => {
+    for (const host of ["evil.example", `evil.example:${port}`, "127.0.0.2"]) {
+      const response = await post({
+        Authorization: "Bearer secret",
+        Host: host,
+      });
+      assert.equal(response.status, 403);
+      assert.match(response.body, /Only localhost may connect/);
+    }
+  });
+
+  it("rejects bodies over the size limit", async () => {
+    const response = await post(
+      { Authorization: "Bearer secret" },
+      Buffer.alloc(5 * 1024 * 1024, " "),
+    );
+    assert.equal(response.status, 413);
+    assert.match(response.body, /Request body exceeds/);
+  });
+});
+
+describe("startup", () => {
+  it("exits before listening when the policy is invalid", () => {
+    const result = spawnSync(process.execPath, [INDEX, "--http"], {
+      env: {
+        ...process.env,
+        NVIM_POLICY: "/nonexistent/policy.json",
+        MCP_PORT: "0",
+      },
+      encoding: "utf8",
+      timeout: 10_000,
+    });
+    assert.equal(result.status, 1);
+    assert.match(
+      result.stderr,
+      /Invalid policy file \/nonexistent\/policy\.json/,
+    );
+    assert.doesNotMatch(result.stderr, /listening/);
+  });
+});
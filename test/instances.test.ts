@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { NeovimManager } from "../src/neovim.js";
+import {
+  currentLines,
+  errorText,
+  Nvim,
+  nvimMissing,
+  Session,
+  startNvim,
+  startSession,
+} from "./helpers.js";
+
+describe("instances", { skip: nvimMissing }, () => {
+  // The default instance, and a second one listed in NVIM_SOCKET_PATHS.
+  let session: Session;
+  let other: Nvim;
+
+  before(async () => {
+    other = await startNvim();
+    session = await startSession({ NVIM_SOCKET_PATHS: other.socket });
+  });
+
+  after(async () => {
+    NeovimManager.getInstance(other?.socket).disconnect();
+    await session?.close();
+    await other?.stop();
+  });
+
+  it("lists the instances with their directories", async () => {
+    const { contents } = await session.client.readResource({
+      uri: "nvim://instances",
+    });
+    const instances = JSON.parse(String(contents[0].text));
+    const find = (source: string) =>
+      instances.find(
+        (instance: Record<string, unknown>) => instance.source === source,
+      );
+    assert.equal(find("default").cwd, session.dir);
+    assert.deepEqual(find("explicit"), {
+      socketPath: other.socket,
+      source: "explicit",
+      connected: true,
+      embedded: false,
+      cwd: other.dir,
+      currentFile: "",
+    });
+  });
+
+  it("edits the instance given by the instance argument", async () => {
+    await session.text("vim_edit", {
+      instance: other.socket,
+      startLine: 1,
+      mode: "replaceAll",
+      lines: "other instance",
+      format: false,
+    });
+    assert.match(
+      await session.text("vim_buffer", { instance: other.socket }),
+      /^1: other instance$/m,
+    );
+    assert.deepEqual(await currentLines(session.nvim), [""]);
+  });
+
+  it("rejects unknown instances", async () => {
+    const result = await session.call("vim_buffer", {
+      instance: "/nonexistent/nvim.sock",
+    });
+    const error = JSON.parse(errorText(result));
+    assert.equal(error.error, "invalid-argument");
+    assert.match(
+      error.message,
+      /Unknown Neovim instance: \/nonexistent\/nvim\.sock/,
+    );
+  });
+});
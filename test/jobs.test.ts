@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { appendOutput, createJob, readOutput } from "../src/jobs.js";
+
+describe("job output", () => {
+  it("joins the chunks of nvim callbacks at newlines", () => {
+    const { stdout } = createJob(1, ["echo"], "/", 1);
+    appendOutput(stdout, ["one", "tw"]);
+    appendOutput(stdout, ["o", "three", ""]);
+    assert.equal(stdout.text, "one\ntwo\nthree\n");
+  });
+
+  it("reads only what has not been read yet", () => {
+    const { stdout } = createJob(1, ["echo"], "/", 1);
+    appendOutput(stdout, ["first", ""]);
+    assert.deepEqual(readOutput(stdout), {
+      text: "first\n",
+      skipped: 0,
+      remaining: 0,
+    });
+    appendOutput(stdout, ["second", ""]);
+    assert.equal(readOutput(stdout).text, "second\n");
+    assert.equal(readOutput(stdout).text, "");
+    assert.equal(readOutput(stdout, true).text, "first\nsecond\n");
+  });
+
+  it("drops the oldest output and reports what was skipped", () => {
+    const { stdout } = createJob(1, ["yes"], "/", 1);
+    appendOutput(stdout, ["a".repeat(600_000)]);
+    appendOutput(stdout, ["b".repeat(600_000)]);
+    assert.equal(stdout.text.length, 1_000_000);
+    assert.equal(stdout.dropped, 200_000);
+
+    const chunk = readOutput(stdout);
+    assert.equal(chunk.skipped, 200_000);
+    assert.equal(chunk.text.length, 50_000);
+    assert.equal(chunk.remaining, 950_000);
+    assert.equal(readOutput(stdout).skipped, 0);
+  });
+});
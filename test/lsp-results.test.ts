@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyTextEdits,
+  toLocations,
+  toSymbols,
+  workspaceEditFiles,
+} from "../src/lsp.js";
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+});
+
+describe("applyTextEdits", () => {
+  it("applies edits from the end and keeps the order of inserts", () => {
+    assert.deepEqual(
+      applyTextEdits(
+        ["one", "two"],
+        [
+          { range: range(0, 0, 3), newText: "ONE" },
+          { range: range(1, 0, 0), newText: "a" },
+          { range: range(1, 0, 0), newText: "b" },
+          { range: range(1, 3, 3), newText: "\nthree" },
+        ],
+      ),
+      ["ONE", "abtwo", "three"],
+    );
+  });
+
+  it("counts columns in the offset encoding", () => {
+    // `x` follows `é` (2 bytes, 1 UTF-16 unit) and `😀` (4 bytes, 2 units).
+    const line = ["é😀x"];
+    for (const [encoding, column] of [
+      ["utf-8", 6],
+      ["utf-16", 3],
+      ["utf-32", 2],
+    ] as const) {
+      assert.deepEqual(
+        applyTextEdits(
+          line,
+          [{ range: range(0, column, column + 1), newText: "y" }],
+          encoding,
+        ),
+        ["é😀y"],
+        encoding,
+      );
+    }
+  });
+});
+
+describe("workspaceEditFiles", () => {
+  it("groups edits by file and lists the paths of file operations", () => {
+    const edit = { range: range(0, 0, 0), newText: "x" };
+    const { files, operations, paths } = workspaceEditFiles({
+      documentChanges: [
+        { textDocument: { uri: "file:///src/a.lua" }, edits: [edit] },
+        { textDocument: { uri: "file:///src/a.lua" }, edits: [edit] },
+        {
+          kind: "rename",
+          oldUri: "file:///src/b.lua",
+          newUri: "file:///b.lua",
+        },
+        { kind: "delete", uri: "file:///src/c.lua" },
+      ],
+    });
+    assert.deepEqual(
+      files.map(({ file, edits }) => [file, edits.length]),
+      [["/src/a.lua", 2]],
+    );
+    assert.deepEqual(operations, [
+      "rename /src/b.lua to /b.lua",
+      "delete /src/c.lua",
+    ]);
+    assert.deepEqual(paths, [
+      "/src/a.lua",
+      "/src/b.lua",
+      "/b.lua",
+      "/src/c.lua",
+    ]);
+  });
+});
+
+describe("toLocations", () => {
+  it("normalizes locations and location links", () => {
+    assert.deepEqual(
+      toLocations([
+        { uri: "file:///a.lua", range: range(0, 1, 2) },
+        {
+          targetUri: "file:///b.lua",
+          targetRange: range(3, 0, 9),
+          targetSelectionRange: range(3, 4, 5),
+        },
+      ]),
+      [
+        {
+          uri: "file:///a.lua",
+          file: "/a.lua",
+          startLine: 1,
+          startColumn: 1,
+          endLine: 1,
+          endColumn: 2,
+        },
+        {
+          uri: "file:///b.lua",
+          file: "/b.lua",
+          startLine: 4,
+          startColumn: 4,
+          endLine: 4,
+          endColumn: 5,
+        },
+      ],
+    );
+    assert.deepEqual(toLocations(null), []);
+  });
+});
+
+describe("toSymbols", () => {
+  it("gives nested symbols dotted names", () => {
+    const symbols = toSymbols(
+      [
+        {
+          name: "Greeter",
+          kind: 5,
+          range: range(0, 0, 9),
+          children: [{ name: "greet", kind: 6, range: range(1, 2, 7) }],
+        },
+      ],
+      "file:///a.lua",
+    );
+    assert.deepEqual(
+      symbols.map(({ name, kind, location }) => [
+        name,
+        kind,
+        location?.startLine,
+      ]),
+      [
+        ["Greeter", "class", 1],
+        ["Greeter.greet", "method", 2],
+      ],
+    );
+  });
+});
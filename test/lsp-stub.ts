@@ -0,0 +1,291 @@
+/**
+ * A minimal language server for the LSP tests, speaking JSON-RPC over stdio.
+ * It knows Lua-style `function name(...) ... end` definitions and treats
+ * every occurrence of a word in the open documents as a reference to it.
+ * Columns are in the offset encoding given as the first argument, utf-16 by
+ * default.
+ */
+
+type Encoding = "utf-8" | "utf-16" | "utf-32";
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+// The parameters of the requests and notifications the stub handles.
+interface Params {
+  textDocument?: { uri: string; text?: string };
+  position?: Position;
+  range?: Range;
+  query?: string;
+  newName?: string;
+  contentChanges?: { text: string }[];
+}
+
+interface Message {
+  id?: number | string;
+  method?: string;
+  params?: Params;
+}
+
+interface Word {
+  uri: string;
+  line: number;
+  // String indices of the word in its line.
+  start: number;
+  end: number;
+  text: string;
+  definition: boolean;
+}
+
+const encoding = (process.argv[2] ?? "utf-16") as Encoding;
+const documents = new Map<string, string[]>();
+
+function toColumn(line: string, index: number): number {
+  const prefix = line.slice(0, index);
+  if (encoding === "utf-8") {
+    return Buffer.byteLength(prefix);
+  }
+  return encoding === "utf-32" ? Array.from(prefix).length : prefix.length;
+}
+
+function toIndex(line: string, column: number): number {
+  let index = 0;
+  while (index < line.length && toColumn(line, index) < column) {
+    index++;
+  }
+  return index;
+}
+
+function words(): Word[] {
+  return Array.from(documents).flatMap(([uri, lines]) =>
+    lines.flatMap((text, line) =>
+      Array.from(
+        text.matchAll(/(function\s+)?\b([A-Za-z_]\w*)/g),
+        (match): Word => {
+          const start = match.index! + (match[1]?.length ?? 0);
+          return {
+            uri,
+            line,
+            start,
+            end: start + match[2].length,
+            text: match[2],
+            definition: match[1] !== undefined,
+          };
+        },
+      ),
+    ),
+  );
+}
+
+function wordAt(uri: string, { line, character }: Position): Word | undefined {
+  const index = toIndex(documents.get(uri)?.[line] ?? "", character);
+  return words().find(
+    (word) =>
+      word.uri === uri &&
+      word.line === line &&
+      word.start <= index &&
+      index <= word.end,
+  );
+}
+
+function range({ uri, line, start, end }: Word): Range {
+  const text = documents.get(uri)![line];
+  return {
+    start: { line, character: toColumn(text, start) },
+    end: { line, character: toColumn(text, end) },
+  };
+}
+
+// A definition spans its lines up to the next `end` at the start of a line.
+function definitionRange(word: Word): Range {
+  const lines = documents.get(word.uri)!;
+  let last = word.line;
+  while (last < lines.length - 1 && !/^end\b/.test(lines[last])) {
+    last++;
+  }
+  return {
+    start: { line: word.line, character: 0 },
+    end: { line: last, character: toColumn(lines[last], lines[last].length) },
+  };
+}
+
+function definitionOf(word?: Word): Word | undefined {
+  return words().find(
+    (candidate) => candidate.definition && candidate.text === word?.text,
+  );
+}
+
+function referencesTo(word?: Word): Word[] {
+  return words().filter((candidate) => candidate.text === word?.text);
+}
+
+function handle(method: string, params: Params = {}): unknown {
+  const uri = params.textDocument?.uri ?? "";
+  switch (method) {
+    case "initialize":
+      return {
+        capabilities: {
+          positionEncoding: encoding,
+          textDocumentSync: 1,
+          definitionProvider: true,
+          referencesProvider: true,
+          hoverProvider: true,
+          documentSymbolProvider: true,
+          workspaceSymbolProvider: true,
+          renameProvider: true,
+          codeActionProvider: true,
+        },
+        serverInfo: { name: "lsp-stub" },
+      };
+    case "shutdown":
+      return null;
+    case "textDocument/definition": {
+      const definition = definitionOf(wordAt(uri, params.position!));
+      return definition
+        ? { uri: definition.uri, range: range(definition) }
+        : null;
+    }
+    case "textDocument/references":
+      return referencesTo(wordAt(uri, params.position!)).map((word) => ({
+        uri: word.uri,
+        range: range(word),
+      }));
+    case "textDocument/hover": {
+      const word = wordAt(uri, params.position!);
+      const definition = definitionOf(word);
+      if (!word || !definition) {
+        return null;
+      }
+      const text = documents.get(definition.uri)![definition.line];
+      return {
+        contents: { kind: "markdown", value: `\`\`\`lua\n${text}\n\`\`\`` },
+        range: range(word),
+      };
+    }
+    case "textDocument/documentSymbol":
+      return words()
+        .filter((word) => word.definition && word.uri === uri)
+        .map((word) => ({
+          name: word.text,
+          kind: 12,
+          range: definitionRange(word),
+          selectionRange: range(word),
+        }));
+    case "workspace/symbol":
+      return words()
+        .filter((word) => word.definition && word.text.includes(params.query!))
+        .map((word) => ({
+          name: word.text,
+          kind: 12,
+          location: { uri: word.uri, range: definitionRange(word) },
+        }));
+    case "textDocument/rename": {
+      const changes: Record<string, unknown[]> = {};
+      for (const word of referencesTo(wordAt(uri, params.position!))) {
+        (changes[word.uri] ??= []).push({
+          range: range(word),
+          newText: params.newName,
+        });
+      }
+      return { changes };
+    }
+    case "textDocument/codeAction": {
+      const line = params.range!.start.line;
+      return [
+        {
+          title: "Add a comment above",
+          kind: "refactor",
+          edit: {
+            changes: {
+              [uri]: [
+                {
+                  range: {
+                    start: { line, character: 0 },
+                    end: { line, character: 0 },
+                  },
+                  newText: "-- TODO\n",
+                },
+              ],
+            },
+          },
+        },
+        {
+          title: "Move to the parent directory",
+          kind: "refactor.move",
+          edit: {
+            documentChanges: [
+              {
+                kind: "rename",
+                oldUri: uri,
+                newUri: new URL(`../${uri.split("/").at(-1)}`, uri).href,
+              },
+            ],
+          },
+        },
+      ];
+    }
+    case "textDocument/didOpen":
+      documents.set(uri, params.textDocument!.text!.split("\n"));
+      return;
+    case "textDocument/didChange":
+      documents.set(uri, params.contentChanges!.at(-1)!.text.split("\n"));
+      return;
+    case "textDocument/didClose":
+      documents.delete(uri);
+      return;
+    case "exit":
+      process.exit(0);
+  }
+  throw new Error(`Unsupported method ${method}`);
+}
+
+function send(message: object) {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  process.stdout.write(
+    `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`,
+  );
+}
+
+function receive({ id, method, params }: Message) {
+  if (method === undefined) {
+    return;
+  }
+  try {
+    const result = handle(method, params);
+    if (id !== undefined) {
+      send({ id, result: result ?? null });
+    }
+  } catch (error) {
+    if (id !== undefined) {
+      send({ id, error: { code: -32601, message: String(error) } });
+    }
+  }
+}
+
+let input = Buffer.alloc(0);
+process.stdin.on("data", (chunk: Buffer) => {
+  input = Buffer.concat([input, chunk]);
+  for (;;) {
+    const headerEnd = input.indexOf("\r\n\r\n");
+    if (headerEnd < 0) {
+      return;
+    }
+    const header = input.subarray(0, headerEnd).toString();
+    const length = Number(/Content-Length: (\d+)/i.exec(header)?.[1] ?? 0);
+    const bodyStart = headerEnd + 4;
+    if (input.length < bodyStart + length) {
+      return;
+    }
+    const body = input.subarray(bodyStart, bodyStart + length).toString();
+    input = input.subarray(bodyStart + length);
+    receive(JSON.parse(body));
+  }
+});
+process.stdin.on("end", () => process.exit(0));
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Location, SymbolInfo } from "../src/lsp.js";
+import {
+  nvimMissing,
+  Session,
+  startLanguageServer,
+  startSession,
+} from "./helpers.js";
+
+const GREET = [
+  "function greet(name)",
+  '  return "hello " .. name',
+  "end",
+  "",
+  "function shout(name)",
+  "  return greet(name):upper()",
+  "end",
+];
+const MAIN = ["greet(name)", "print(shout(name))"];
+
+describe("LSP tools", { skip: nvimMissing }, () => {
+  let session: Session;
+  let greet: string;
+  let main: string;
+
+  const bufferLines = (file: string): Promise<string[]> =>
+    session.nvim.call("getbufline", [file, 1, "$"]);
+
+  // Locations as file:line:column-line:column, sorted.
+  const spans = (locations: Location[]) =>
+    locations
+      .map(
+        ({ file, startLine, startColumn, endLine, endColumn }) =>
+          `${basename(file)}:${startLine}:${startColumn}-${endLine}:${endColumn}`,
+      )
+      .sort();
+
+  before(async () => {
+    session = await startSession();
+    greet = join(session.dir, "greet.lua");
+    main = join(session.dir, "main.lua");
+    writeFileSync(greet, GREET.join("\n") + "\n");
+    writeFileSync(main, MAIN.join("\n") + "\n");
+    await session.nvim.command(`edit ${main} | edit ${greet}`);
+    await startLanguageServer(session.nvim, session.dir, [main, greet]);
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  it("finds the definition with its path and line range", async () => {
+    const locations = JSON.parse(
+      await session.text("vim_lsp_definition", { line: 6, column: 10 }),
+    );
+    assert.deepEqual(locations, [
+      {
+        uri: `file://${greet}`,
+        file: greet,
+        startLine: 1,
+        startColumn: 9,
+        endLine: 1,
+        endColumn: 14,
+        snippet: "function greet(name)",
+      },
+    ]);
+  });
+
+  it("finds the references across files", async () => {
+    const locations: Location[] = JSON.parse(
+      await session.text("vim_lsp_references", { line: 1, column: 9 }),
+    );
+    assert.deepEqual(spans(locations), [
+      "greet.lua:1:9-1:14",
+      "greet.lua:6:9-6:14",
+      "main.lua:1:0-1:5",
+    ]);
+    const inMain = locations.find(({ file }) => file === main);
+    assert.equal(inMain?.snippet, "greet(name)");
+  });
+
+  it("returns the hover text", async () => {
+    assert.equal(
+      await session.text("vim_lsp_hover", { line: 6, column: 10 }),
+      "```lua\nfunction greet(name)\n```",
+    );
+  });
+
+  it("lists the document symbols with their line ranges", async () => {
+    const symbols: SymbolInfo[] = JSON.parse(
+      await session.text("vim_lsp_document_symbols"),
+    );
+    assert.deepEqual(
+      symbols.map(({ name, kind }) => `${kind} ${name}`),
+      ["function greet", "function shout"],
+    );
+    assert.deepEqual(spans(symbols.map(({ location }) => location!)), [
+      "greet.lua:1:0-3:3",
+      "greet.lua:5:0-7:3",
+    ]);
+  });
+
+  it("searches the workspace symbols", async () => {
+    const symbols: SymbolInfo[] = JSON.parse(
+      await session.text("vim_lsp_workspace_symbols", { query: "sho" }),
+    );
+    assert.equal(symbols.length, 1);
+    assert.equal(symbols[0].name, "shout");
+    assert.equal(symbols[0].location?.file, greet);
+    assert.equal(symbols[0].location?.startLine, 5);
+    assert.equal(symbols[0].location?.endLine, 7);
+  });
+
+  it("previews and applies a rename", async () => {
+    const args = { line: 1, column: 9, newName: "welcome" };
+    const preview: { applied: boolean; files: Record<string, string>[] } =
+      JSON.parse(await session.text("vim_lsp_rename", args));
+    assert.equal(preview.applied, false);
+    assert.deepEqual(preview.files.map(({ file }) => basename(file)).sort(), [
+      "greet.lua",
+      "main.lua",
+    ]);
+    const diff = preview.files.find(({ file }) => file === greet)!.diff;
+    assert.match(diff, /^\+1: function welcome\(name\)$/m);
+    assert.match(diff, /^\+6:   return welcome\(name\):upper\(\)$/m);
+    assert.deepEqual(await bufferLines(greet), GREET);
+
+    await session.text("vim_lsp_rename", { ...args, apply: true });
+    assert.deepEqual(await bufferLines(main), [
+      "welcome(name)",
+      "print(shout(name))",
+    ]);
+    assert.equal((await bufferLines(greet))[0], "function welcome(name)");
+  });
+
+  it("lists and applies code actions", async () => {
+    assert.deepEqual(
+      JSON.parse(
+        await session.text("vim_lsp_code_actions", { line: 5, column: 0 }),
+      ),
+      [
+        {
+          index: 1,
+          title: "Add a comment above",
+          kind: "refactor",
+          hasEdit: true,
+        },
+        {
+          index: 2,
+          title: "Move to the parent directory",
+          kind: "refactor.move",
+          hasEdit: true,
+        },
+      ],
+    );
+    const result = JSON.parse(
+      await session.text("vim_lsp_code_actions", {
+        line: 5,
+        column: 0,
+        action: 1,
+        apply: true,
+      }),
+    );
+    assert.equal(result.title, "Add a comment above");
+    assert.match(result.files[0].diff, /^\+5: -- TODO$/m);
+    assert.deepEqual((await bufferLines(greet)).slice(4, 6), [
+      "-- TODO",
+      "function shout(name)",
+    ]);
+  });
+
+  it("previews edits in the offset encoding of the server", async () => {
+    const file = join(session.dir, "encoding.lua");
+    writeFileSync(file, 'print("é", name)\n');
+    await session.nvim.command(`edit ${file}`);
+    await startLanguageServer(session.nvim, session.dir, [file], "utf-8");
+    // `name` starts at byte 12, after the two bytes of `é`.
+    const preview = JSON.parse(
+      await session.text("vim_lsp_rename", {
+        line: 1,
+        column: 12,
+        newName: "who",
+      }),
+    );
+    assert.match(preview.files[0].diff, /^\+1: print\("é", who\)$/m);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyHunks, parsePatch } from "../src/patch.js";
+
+const patch = (...lines: string[]) => lines.join("\n") + "\n";
+
+describe("parsePatch", () => {
+  it("parses several files and ignores git metadata", () => {
+    const files = parsePatch(
+      patch(
+        "diff --git a/one.txt b/one.txt",
+        "index 1234..5678 100644",
+        "--- a/one.txt\t2024-01-01 00:00:00",
+        "+++ b/one.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "+B",
+        "--- /dev/null",
+        "+++ b/new.txt",
+        "@@ -0,0 +1 @@",
+        "+created",
+      ),
+    );
+    assert.deepEqual(
+      files.map(({ oldPath, newPath, hunks }) => [
+        oldPath,
+        newPath,
+        hunks.length,
+      ]),
+      [
+        ["one.txt", "one.txt", 1],
+        [null, "new.txt", 1],
+      ],
+    );
+    assert.deepEqual(files[0].hunks[0].lines, [
+      { kind: " ", text: "a" },
+      { kind: "-", text: "b" },
+      { kind: "+", text: "B" },
+    ]);
+  });
+
+  it("rejects hunks without a file header", () => {
+    assert.throws(
+      () => parsePatch(patch("@@ -1 +1 @@", "-a", "+b")),
+      /has no preceding file header/,
+    );
+  });
+
+  it("rejects truncated hunks", () => {
+    assert.throws(
+      () => parsePatch(patch("--- a/x", "+++ b/x", "@@ -1,3 +1,3 @@", " a")),
+      /is truncated/,
+    );
+  });
+});
+
+describe("applyHunks", () => {
+  const [{ hunks }] = parsePatch(
+    patch(
+      "--- a/x",
+      "+++ b/x",
+      "@@ -2,3 +2,3 @@",
+      " two",
+      "-three",
+      "+THREE",
+      " four",
+    ),
+  );
+
+  it("applies a hunk where its header says", () => {
+    const { lines, results } = applyHunks(
+      ["one", "two", "three", "four"],
+      hunks,
+    );
+    assert.deepEqual(lines, ["one", "two", "THREE", "four"]);
+    assert.equal(results[0].applied, true);
+    assert.equal(results[0].line, 2);
+    assert.equal(results[0].offset, 0);
+  });
+
+  it("finds a hunk at an offset", () => {
+    const { lines, results } = applyHunks(
+      ["zero", "extra", "one", "two", "three", "four"],
+      hunks,
+    );
+    assert.deepEqual(lines, ["zero", "extra", "one", "two", "THREE", "four"]);
+    assert.equal(results[0].offset, 2);
+  });
+
+  it("tolerates whitespace differences", () => {
+    const { lines, results } = applyHunks(
+      ["one", "  two", "three", "four  "],
+      hunks,
+    );
+    assert.equal(lines[2], "THREE");
+    assert.equal(results[0].ignoredWhitespace, true);
+  });
+
+  it("drops mismatched context lines with fuzz", () => {
+    const { lines, results } = applyHunks(["one", "TWO", "three", "4"], hunks);
+    assert.deepEqual(lines, ["one", "TWO", "THREE", "4"]);
+    assert.equal(results[0].fuzz, 1);
+  });
+
+  it("skips hunks that do not match", () => {
+    const original = ["a", "b", "c"];
+    const { lines, results } = applyHunks(original, hunks);
+    assert.deepEqual(lines, original);
+    assert.equal(results[0].applied, false);
+    assert.ok(results[0].error);
+  });
+});
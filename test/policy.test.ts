@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  errorText,
+  nvimMissing,
+  Session,
+  startLanguageServer,
+  startSession,
+} from "./helpers.js";
+
+describe("policy", { skip: nvimMissing }, () => {
+  let session: Session;
+  let policyDir: string;
+
+  before(async () => {
+    policyDir = mkdtempSync(join(tmpdir(), "mcp-neovim-policy-"));
+    const policy = join(policyDir, "policy.json");
+    writeFileSync(
+      policy,
+      JSON.stringify({
+        tools: { deny: ["vim_file_tree"] },
+        commands: { deny: ["^lua", "^sort"] },
+        workspaceRoot: ".",
+      }),
+    );
+    session = await startSession({ NVIM_POLICY: policy });
+  });
+
+  after(async () => {
+    await session?.close();
+    rmSync(policyDir, { recursive: true, force: true });
+  });
+
+  it("hides denied tools", async () => {
+    const { tools } = await session.client.listTools();
+    const names = tools.map(({ name }) => name);
+    assert.ok(names.includes("vim_command"));
+    assert.ok(!names.includes("vim_file_tree"));
+  });
+
+  it("reports denied commands", async () => {
+    const result = await session.call("vim_command", { command: "sort" });
+    const error = JSON.parse(errorText(result));
+    assert.equal(error.error, "policy-denied");
+    assert.equal(error.rule, "commands.deny");
+  });
+
+  it("matches each command without modifiers", async () => {
+    for (const command of [
+      "echo 1 | lua vim.g.x = 1",
+      "silent lua vim.g.x = 1",
+      "sil! keepalt lua vim.g.x = 1",
+      'exe "lua " . "vim.g.x = 1"',
+      "silent sort",
+      "%sort u",
+      "edit +lua\\ vim.g.x\\ =\\ 1 x.txt",
+    ]) {
+      const result = await session.call("vim_command", { command });
+      assert.equal(JSON.parse(errorText(result)).rule, "commands.deny");
+    }
+    assert.equal(await session.nvim.call("exists", ["g:x"]), 0);
+    assert.equal(
+      await session.text("vim_command", { command: "echo 1 | echo 2" }),
+      "1\n2",
+    );
+  });
+
+  it("reports paths outside the workspace root", async () => {
+    const result = await session.call("vim_open", {
+      path: join(session.dir, "outside.txt"),
+    });
+    const error = JSON.parse(errorText(result));
+    assert.equal(error.error, "policy-denied");
+    assert.equal(error.rule, "workspaceRoot");
+  });
+
+  it("checks the files Ex commands write", async () => {
+    for (const command of [
+      "w outside.txt",
+      "silent write! ../outside.txt",
+      "saveas /tmp/outside.txt",
+      "w !cat",
+      "file outside.txt",
+      `cd ${policyDir} | cd .. | w x.txt`,
+      "redir > /tmp/outside.txt",
+      "redir! >> ../outside.txt",
+      "mksession /tmp/Session.vim",
+      "mkview",
+      "mkview /tmp/view.vim",
+      "wshada",
+      "wviminfo! /tmp/shada",
+      "wundo /tmp/undo",
+    ]) {
+      const result = await session.call("vim_command", { command });
+      assert.equal(
+        JSON.parse(errorText(result)).rule,
+        "workspaceRoot",
+        `${command} was not denied`,
+      );
+    }
+    assert.match(
+      await session.text("vim_command", {
+        command: `w ${join(policyDir, "inside.txt")}`,
+      }),
+      /written/,
+    );
+    await session.text("vim_command", {
+      command: `mksession! ${join(policyDir, "Session.vim")}`,
+    });
+    await session.text("vim_command", {
+      command: `redir > ${join(policyDir, "redir.txt")} | redir END`,
+    });
+  });
+
+  it("checks the files that workspace edits create, rename or delete", async () => {
+    const file = join(policyDir, "inside.lua");
+    writeFileSync(file, "print(1)\n");
+    await session.text("vim_open", { path: file });
+    await startLanguageServer(session.nvim, policyDir, [file]);
+    const args = { line: 1, column: 0, action: 2 };
+
+    const preview = JSON.parse(
+      await session.text("vim_lsp_code_actions", args),
+    );
+    assert.deepEqual(preview.operations, [
+      `rename ${file} to ${join(policyDir, "..", "inside.lua")}`,
+    ]);
+    const result = await session.call("vim_lsp_code_actions", {
+      ...args,
+      apply: true,
+    });
+    assert.equal(JSON.parse(errorText(result)).rule, "workspaceRoot");
+    assert.ok(existsSync(file));
+  });
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { watchEditorChanges } from "../src/server.js";
+import { nvimMissing, resetBuffer, Session, startSession } from "./helpers.js";
+
+describe("resources", { skip: nvimMissing }, () => {
+  let session: Session;
+  // The URIs of the resources/updated notifications received so far.
+  const updated: string[] = [];
+
+  before(async () => {
+    session = await startSession();
+    session.client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated.push(notification.params.uri);
+      },
+    );
+    await watchEditorChanges();
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  beforeEach(async () => {
+    await resetBuffer(session.nvim, ["one", "two"]);
+    updated.length = 0;
+  });
+
+  const waitForUpdate = async (uri: string) => {
+    const deadline = Date.now() + 5_000;
+    while (!updated.includes(uri)) {
+      assert.ok(Date.now() < deadline, `no update of ${uri}: ${updated}`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  describe("nvim://buffer/{id}", () => {
+    it("lists and reads buffers that are not shown", async () => {
+      writeFileSync(join(session.dir, "hidden.txt"), "alpha\nbeta\n");
+      await session.nvim.command("badd hidden.txt");
+      const id = await session.nvim.call("bufnr", ["hidden.txt"]);
+      const uri = `nvim://buffer/${id}`;
+
+      const { resources } = await session.client.listResources();
+      assert.equal(
+        resources.find((resource) => resource.uri === uri)?.name,
+        join(session.dir, "hidden.txt"),
+      );
+      const { contents } = await session.client.readResource({ uri });
+      assert.match(String(contents[0].text), /^1: alpha\n2: beta$/m);
+      assert.deepEqual(await (await session.nvim.buffer).lines, ["one", "two"]);
+    });
+
+    it("rejects unknown buffers", async () => {
+      await assert.rejects(
+        session.client.readResource({ uri: "nvim://buffer/9999" }),
+        /9999/,
+      );
+    });
+  });
+
+  describe("subscriptions", () => {
+    it("notifies subscribers of edits to a buffer", async () => {
+      const uri = `nvim://buffer/${(await session.nvim.buffer).id}`;
+      await session.client.subscribeResource({ uri });
+      await session.text("vim_edit", {
+        startLine: 1,
+        mode: "replace",
+        lines: "ONE",
+        format: false,
+      });
+      await waitForUpdate(uri);
+
+      await session.client.unsubscribeResource({ uri });
+      // Let the notification of a change already in flight arrive first.
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      updated.length = 0;
+      await session.text("vim_edit", {
+        startLine: 2,
+        mode: "replace",
+        lines: "TWO",
+        format: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      assert.ok(!updated.includes(uri), "notified after unsubscribing");
+    });
+
+    it("notifies subscribers of new diagnostics", async () => {
+      const uri = "nvim://diagnostics";
+      await session.client.subscribeResource({ uri });
+      await session.nvim.lua(
+        `
+        local ns = vim.api.nvim_create_namespace("resources-test")
+        vim.diagnostic.set(ns, 0, {
+          { lnum = 0, col = 0, message = "unused", severity = vim.diagnostic.severity.WARN },
+        })
+        `,
+        [],
+      );
+      await waitForUpdate(uri);
+      await session.client.unsubscribeResource({ uri });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { errorText, nvimMissing, Session, startSession } from "./helpers.js";
+
+describe("NVIM_SHELL_ALLOW", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession({
+      ALLOW_SHELL_COMMANDS: "true",
+      NVIM_SHELL_ALLOW: "echo",
+    });
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  it("only runs the allowed executables from the PATH", async () => {
+    assert.equal(
+      await session.text("vim_command", { command: "!echo hi" }),
+      "hi",
+    );
+    const fake = join(session.dir, "echo");
+    writeFileSync(fake, "#!/bin/sh\n", { mode: 0o755 });
+    for (const command of [
+      "!./echo hi",
+      `!${fake} hi`,
+      "!ls",
+      "%!ls",
+      "r !ls",
+    ]) {
+      const result = await session.call("vim_command", { command });
+      assert.match(errorText(result), /is not in NVIM_SHELL_ALLOW/);
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { errorText, nvimMissing, Session, startSession } from "./helpers.js";
+
+describe("shell tools", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession({
+      ALLOW_SHELL_COMMANDS: "true",
+      NVIM_SHELL_DENY: "rm",
+    });
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  // Polls vim_job_status until the job exits.
+  const waitForJob = async (job: number) => {
+    const deadline = Date.now() + 10_000;
+    for (;;) {
+      const [status] = JSON.parse(
+        await session.text("vim_job_status", { job }),
+      );
+      if (!status.running || Date.now() > deadline) {
+        return status;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  };
+
+  describe("vim_command", () => {
+    it("runs commands without a shell", async () => {
+      assert.equal(
+        await session.text("vim_command", { command: "!echo 'a  b'" }),
+        "a  b",
+      );
+      const result = await session.call("vim_command", {
+        command: "!echo a | cat",
+      });
+      assert.match(errorText(result), /shell operator/);
+    });
+
+    it("applies NVIM_SHELL_DENY", async () => {
+      const result = await session.call("vim_command", {
+        command: "!rm -rf x",
+      });
+      const error = JSON.parse(errorText(result));
+      assert.equal(error.error, "shell-command-rejected");
+      assert.match(error.message, /rm is denied by NVIM_SHELL_DENY/);
+    });
+
+    it("checks the shell commands of Ex commands", async () => {
+      for (const command of [
+        "%!rm -rf x",
+        "r !rm x",
+        "w !rm x",
+        'exe "!rm x"',
+        "echo 1 | silent !rm x",
+      ]) {
+        const error = JSON.parse(
+          errorText(await session.call("vim_command", { command })),
+        );
+        assert.match(
+          error.message,
+          /rm is denied by NVIM_SHELL_DENY/,
+          `${command} was not checked`,
+        );
+      }
+      for (const command of ["call system(['rm', 'x'])", "make", "r !rm *"]) {
+        const error = JSON.parse(
+          errorText(await session.call("vim_command", { command })),
+        );
+        assert.match(error.message, /Cannot check the shell command/);
+      }
+      await session.text("vim_command", { command: "r !echo read-output" });
+      const lines = await (await session.nvim.buffer).lines;
+      assert.ok(lines.includes("read-output"));
+    });
+
+    it("finds files", async () => {
+      writeFileSync(join(session.dir, "needle.txt"), "");
+      assert.match(
+        await session.text("vim_find_file", { filename: "needle.txt" }),
+        /^\.\/needle\.txt$/m,
+      );
+    });
+  });
+
+  describe("jobs", () => {
+    it("collects the output and exit code", async () => {
+      const { id } = JSON.parse(
+        await session.text("vim_job_start", {
+          command: "sh -c 'echo out; echo err >&2; exit 3'",
+        }),
+      );
+      const status = await waitForJob(id);
+      assert.equal(status.running, false);
+      assert.equal(status.exitCode, 3);
+
+      const output = await session.text("vim_job_output", { job: id });
+      assert.match(output, /^\[Job \d+ exited with code 3/);
+      assert.match(output, /\[stdout\]\nout/);
+      assert.match(output, /\[stderr\]\nerr/);
+    });
+
+    it("keeps the output and exit of jobs that end at once", async () => {
+      for (let i = 0; i < 10; i++) {
+        const { id } = JSON.parse(
+          await session.text("vim_job_start", { command: "echo fast" }),
+        );
+        const status = await waitForJob(id);
+        assert.equal(status.running, false);
+        assert.equal(status.exitCode, 0);
+        assert.match(
+          await session.text("vim_job_output", { job: id }),
+          /\[stdout\]\nfast/,
+        );
+      }
+      const { id } = JSON.parse(
+        await session.text("vim_job_start", { command: "true" }),
+      );
+      assert.equal((await waitForJob(id)).exitCode, 0);
+    });
+
+    it("stops running jobs", async () => {
+      const { id } = JSON.parse(
+        await session.text("vim_job_start", { command: "sleep 30" }),
+      );
+      assert.equal(
+        await session.text("vim_job_kill", { job: id }),
+        `Stopping job ${id}`,
+      );
+      assert.equal((await waitForJob(id)).running, false);
+    });
+
+    it("reports unknown jobs", async () => {
+      const result = await session.call("vim_job_output", { job: 9999 });
+      assert.match(errorText(result), /No job 9999/);
+    });
+  });
+
+  describe("terminals", () => {
+    it("runs a command and reads its output", async () => {
+      const { bufferId } = JSON.parse(
+        await session.text("vim_terminal_open", {
+          command: "echo terminal-output",
+        }),
+      );
+      assert.equal(
+        await session.text("vim_terminal_wait", {
+          terminal: bufferId,
+          timeout: 10,
+        }),
+        `Terminal ${bufferId} exited with code 0`,
+      );
+      assert.match(
+        await session.text("vim_terminal_read", { terminal: bufferId }),
+        /terminal-output/,
+      );
+    });
+
+    it("sends input to the job", async () => {
+      const { bufferId } = JSON.parse(
+        await session.text("vim_terminal_open", { command: "cat" }),
+      );
+      assert.equal(
+        await session.text("vim_terminal_send", {
+          terminal: bufferId,
+          input: "terminal-input",
+        }),
+        `Sent input to terminal ${bufferId}`,
+      );
+      // The line shows up twice, echoed by the terminal and printed by cat.
+      const deadline = Date.now() + 10_000;
+      let output = "";
+      while (output.split("terminal-input").length < 3) {
+        assert.ok(Date.now() < deadline, `cat did not print: ${output}`);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        output = await session.text("vim_terminal_read", {
+          terminal: bufferId,
+          fromLine: 1,
+        });
+      }
+      await session.text("vim_terminal_send", {
+        terminal: bufferId,
+        input: "\x04",
+        enter: false,
+      });
+      assert.equal(
+        await session.text("vim_terminal_wait", {
+          terminal: bufferId,
+          timeout: 10,
+        }),
+        `Terminal ${bufferId} exited with code 0`,
+      );
+    });
+
+    it("rejects buffers that are not terminals", async () => {
+      const buffer = await session.nvim.buffer;
+      const result = await session.call("vim_terminal_read", {
+        terminal: buffer.id,
+      });
+      assert.match(errorText(result), /is not a terminal/);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitCommand } from "../src/shell.js";
+
+describe("splitCommand", () => {
+  it("splits on whitespace outside quotes", () => {
+    assert.deepEqual(splitCommand("  git   commit -m 'a  b' "), [
+      "git",
+      "commit",
+      "-m",
+      "a  b",
+    ]);
+    assert.deepEqual(splitCommand("echo '' x"), ["echo", "", "x"]);
+  });
+
+  it("keeps backslashes in single quotes", () => {
+    assert.deepEqual(splitCommand("grep 'a\\d+'"), ["grep", "a\\d+"]);
+  });
+
+  it('only escapes $, `, ", \\ and newline in double quotes', () => {
+    assert.deepEqual(splitCommand('grep "a\\d+" "C:\\Users"'), [
+      "grep",
+      "a\\d+",
+      "C:\\Users",
+    ]);
+    assert.deepEqual(splitCommand('echo "\\$x \\` \\" \\\\ a\\\nb"'), [
+      "echo",
+      '$x ` " \\ ab',
+    ]);
+  });
+
+  it("escapes any character outside quotes", () => {
+    assert.deepEqual(splitCommand("touch a\\ b \\|"), ["touch", "a b", "|"]);
+  });
+
+  it("rejects shell operators and substitutions", () => {
+    assert.throws(() => splitCommand("ls | wc"), /shell operator/);
+    assert.throws(() => splitCommand("ls > x"), /shell operator/);
+    assert.throws(() => splitCommand('echo "$HOME"'), /substitutions/);
+    assert.throws(() => splitCommand("echo 'x"), /Unterminated ' quote/);
+    assert.throws(() => splitCommand("   "), /Command is empty/);
+  });
+});
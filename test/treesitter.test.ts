@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  currentLines,
+  errorText,
+  nvimMissing,
+  resetBuffer,
+  Session,
+  startSession,
+  texts,
+} from "./helpers.js";
+
+const SOURCE = [
+  "local function greet(name)",
+  '  return "hi " .. name',
+  "end",
+  "",
+  "local function add(a, b)",
+  "  return a + b",
+  "end",
+];
+
+describe("treesitter tools", { skip: nvimMissing }, () => {
+  let session: Session;
+
+  before(async () => {
+    session = await startSession();
+  });
+
+  after(async () => {
+    await session?.close();
+  });
+
+  beforeEach(async () => {
+    await resetBuffer(session.nvim, SOURCE);
+    await session.nvim.command("setlocal filetype=lua");
+  });
+
+  it("outlines the functions of a buffer", async () => {
+    const symbols: Record<string, unknown>[] = JSON.parse(
+      await session.text("vim_treesitter_outline"),
+    );
+    assert.deepEqual(
+      symbols.map(({ name, kind, startLine, endLine }) => ({
+        name,
+        kind,
+        startLine,
+        endLine,
+      })),
+      [
+        { name: "greet", kind: "function", startLine: 1, endLine: 3 },
+        { name: "add", kind: "function", startLine: 5, endLine: 7 },
+      ],
+    );
+  });
+
+  it("finds the enclosing node of a type", async () => {
+    const node = JSON.parse(
+      await session.text("vim_treesitter_node", {
+        line: 6,
+        column: 2,
+        type: "function",
+      }),
+    );
+    assert.equal(node.startLine, 5);
+    assert.equal(node.endLine, 7);
+    assert.equal(node.text, SOURCE.slice(4).join("\n"));
+  });
+
+  it("runs queries", async () => {
+    const captures: Record<string, unknown>[] = JSON.parse(
+      await session.text("vim_treesitter_query", {
+        query: "(function_declaration name: (identifier) @name)",
+      }),
+    );
+    assert.deepEqual(
+      captures.map(({ capture, text }) => [capture, text]),
+      [
+        ["name", "greet"],
+        ["name", "add"],
+      ],
+    );
+  });
+
+  it("marks query results that were cut off", async () => {
+    await resetBuffer(
+      session.nvim,
+      Array.from({ length: 501 }, (_, i) => `local x${i} = ${i}`),
+    );
+    await session.nvim.command("setlocal filetype=lua");
+    const [json, marker] = texts(
+      await session.call("vim_treesitter_query", { query: "(identifier) @id" }),
+    );
+    assert.equal(JSON.parse(json).length, 500);
+    assert.match(marker, /^\[Truncated: only the first 500 captures/);
+
+    const result = await session.call("vim_treesitter_query", {
+      query: "(identifier) @id",
+      endLine: 500,
+    });
+    assert.equal(texts(result).length, 1);
+  });
+
+  it("replaces a function by name", async () => {
+    await session.text("vim_replace_node", {
+      symbol: "add",
+      newText: "local function add(a, b)\n  return b + a\nend",
+    });
+    assert.deepEqual(await currentLines(session.nvim), [
+      ...SOURCE.slice(0, 5),
+      "  return b + a",
+      "end",
+    ]);
+
+    const result = await session.call("vim_replace_node", {
+      symbol: "missing",
+      newText: "",
+    });
+    assert.match(errorText(result), /No symbol named missing/);
+  });
+
+  it("reports buffers without a parser", async () => {
+    await session.nvim.command("setlocal filetype=");
+    const result = await session.call("vim_treesitter_outline");
+    assert.match(errorText(result), /No treesitter parser available/);
+  });
+});